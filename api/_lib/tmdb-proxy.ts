@@ -0,0 +1,47 @@
+/**
+ * Shared by the /tmdb serverless function and the Vite dev proxy so the TMDB
+ * API key is only ever added on the server.
+ */
+
+export const TMDB_API_BASE = 'https://api.themoviedb.org/3';
+
+// Endpoints the app calls; anything else is rejected before reaching TMDB
+const ALLOWED_ENDPOINTS: RegExp[] = [
+  /^\/movie\/(popular|top_rated|now_playing|upcoming)$/,
+  /^\/movie\/\d+$/,
+  /^\/movie\/\d+\/videos$/,
+  /^\/tv\/(popular|top_rated|on_the_air)$/,
+  /^\/tv\/\d+$/,
+  /^\/tv\/\d+\/season\/\d+$/,
+  /^\/discover\/(movie|tv)$/,
+  /^\/search\/(movie|tv)$/,
+  /^\/genre\/(movie|tv)\/list$/,
+  /^\/configuration\/languages$/,
+];
+
+/**
+ * Normalises a proxied path ("movie/550", "/movie/550/") to "/movie/550"
+ */
+export function normalizeTmdbPath(path: string): string {
+  return `/${path.replace(/^\/+|\/+$/g, '')}`;
+}
+
+export function isAllowedTmdbEndpoint(path: string): boolean {
+  const normalized = normalizeTmdbPath(path);
+  return ALLOWED_ENDPOINTS.some(pattern => pattern.test(normalized));
+}
+
+/**
+ * Builds the upstream URL, dropping any client-supplied api_key in favour of
+ * the server's own
+ */
+export function buildTmdbUrl(path: string, searchParams: URLSearchParams, apiKey: string): string {
+  const url = new URL(`${TMDB_API_BASE}${normalizeTmdbPath(path)}`);
+  searchParams.forEach((value, key) => {
+    if (key !== 'api_key' && key !== 'path') {
+      url.searchParams.append(key, value);
+    }
+  });
+  url.searchParams.set('api_key', apiKey);
+  return url.toString();
+}
@@ -0,0 +1,46 @@
+import { buildTmdbUrl, isAllowedTmdbEndpoint } from './_lib/tmdb-proxy';
+
+export const config = {
+  runtime: 'edge',
+};
+
+function jsonError(status: number, message: string): Response {
+  return new Response(JSON.stringify({ status_message: message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * TMDB proxy. vercel.json rewrites /tmdb/:path* here as ?path=:path*; the
+ * API key is read from the server environment and never sent to the browser.
+ */
+export default async function handler(request: Request): Promise<Response> {
+  if (request.method !== 'GET') {
+    return jsonError(405, 'Method not allowed');
+  }
+
+  const apiKey = process.env.TMDB_API_KEY;
+  if (!apiKey) {
+    return jsonError(500, 'TMDB API key is not configured');
+  }
+
+  const { searchParams } = new URL(request.url);
+  const path = searchParams.get('path') ?? '';
+  if (!isAllowedTmdbEndpoint(path)) {
+    return jsonError(404, 'Endpoint not allowed');
+  }
+
+  const upstream = await fetch(buildTmdbUrl(path, searchParams, apiKey), {
+    headers: { Accept: 'application/json' },
+  });
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: {
+      'Content-Type': upstream.headers.get('Content-Type') ?? 'application/json',
+      // Let the edge cache successful responses briefly; the client keeps its own cache
+      'Cache-Control': upstream.ok ? 'public, s-maxage=300, stale-while-revalidate=600' : 'no-store',
+    },
+  });
+}
@@ -1,24 +1,62 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { BrowserRouter, Routes, Route, useLocation } from "react-router-dom";
+import { getBackgroundLocation } from "@/hooks/use-movie-navigation";
+import { queryClient } from "@/lib/query-client";
+import { ShortcutsHelp } from "@/components/ShortcutsHelp";
+import { LocalFileDropZone } from "@/components/LocalFileDropZone";
+import { PersistentPlayer } from "@/components/PersistentPlayer";
 import Index from "./pages/Index";
+import TvShows from "./pages/TvShows";
+import Watchlist from "./pages/Watchlist";
+import Search from "./pages/Search";
+import GenreMovies from "./pages/GenreMovies";
+import MovieDetails from "./pages/MovieDetails";
+import Watch from "./pages/Watch";
+import LocalWatch from "./pages/LocalWatch";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const AppRoutes = () => {
+  const location = useLocation();
+
+  return (
+    <>
+      {/* Pages render against the background location so overlays keep the page behind them */}
+      <Routes location={getBackgroundLocation(location)}>
+        <Route path="/" element={<Index />} />
+        <Route path="/tv" element={<TvShows />} />
+        <Route path="/watchlist" element={<Watchlist />} />
+        <Route path="/search" element={<Search />} />
+        <Route path="/genre/:id" element={<GenreMovies />} />
+        {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+        <Route path="*" element={<NotFound />} />
+      </Routes>
+
+      {/* Overlay routes for the details modal and the player */}
+      <Routes>
+        <Route path="/movie/:id" element={<MovieDetails />} />
+        <Route path="/watch/local" element={<LocalWatch />} />
+        <Route path="/watch/:id" element={<Watch />} />
+        <Route path="*" element={null} />
+      </Routes>
+
+      {/* Outlives the watch routes so playback continues in the mini-player */}
+      <PersistentPlayer />
+      <LocalFileDropZone />
+    </>
+  );
+};
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <ShortcutsHelp />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <AppRoutes />
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
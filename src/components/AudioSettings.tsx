@@ -0,0 +1,69 @@
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AudioTrackOption } from '@/lib/streaming';
+import { useAudioPreferences } from '@/hooks/use-audio';
+import { playbackPreferencesService } from '@/services/playback-preferences';
+
+interface AudioSettingsProps {
+  tracks: AudioTrackOption[];
+  currentTrack: string;
+  onSelectTrack: (id: string) => void;
+  // False when the source can't be run through Web Audio
+  enhancementAvailable: boolean;
+}
+
+export function AudioSettings({ tracks, currentTrack, onSelectTrack, enhancementAvailable }: AudioSettingsProps) {
+  const { nightMode, dialogueBoost } = useAudioPreferences();
+
+  return (
+    <div className="space-y-4">
+      {/* Track */}
+      {tracks.length > 1 && (
+        <div>
+          <label className="text-white text-sm font-medium mb-2 block">Audio</label>
+          <Select value={currentTrack} onValueChange={onSelectTrack}>
+            <SelectTrigger className="bg-white/10 border-white/20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {tracks.map((track) => (
+                <SelectItem key={track.id} value={track.id}>
+                  {track.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Enhancements */}
+      <div className="space-y-3">
+        <label className="flex items-center justify-between gap-4 text-white text-sm">
+          <span>
+            Night mode
+            <span className="block text-xs text-gray-400">Quieter explosions, clearer whispers</span>
+          </span>
+          <Switch
+            checked={nightMode}
+            onCheckedChange={(checked) => playbackPreferencesService.updateAudio({ nightMode: checked })}
+            disabled={!enhancementAvailable}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-4 text-white text-sm">
+          <span>
+            Dialogue boost
+            <span className="block text-xs text-gray-400">Lifts voices above music and effects</span>
+          </span>
+          <Switch
+            checked={dialogueBoost}
+            onCheckedChange={(checked) => playbackPreferencesService.updateAudio({ dialogueBoost: checked })}
+            disabled={!enhancementAvailable}
+          />
+        </label>
+        {!enhancementAvailable && (
+          <p className="text-xs text-gray-400">Audio enhancements aren't available for this source.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { Chapter } from '@/lib/chapters';
+
+interface ChapterListProps {
+  chapters: Chapter[];
+  current: Chapter | null;
+  onSelect: (chapter: Chapter) => void;
+  formatTime: (seconds: number) => string;
+}
+
+export function ChapterList({ chapters, current, onSelect, formatTime }: ChapterListProps) {
+  return (
+    <div>
+      <label className="text-white text-sm font-medium mb-2 block">Chapters</label>
+      <ol className="space-y-1">
+        {chapters.map((chapter) => (
+          <li key={chapter.start}>
+            <button
+              type="button"
+              className={`w-full flex items-center justify-between gap-3 rounded px-2 py-1.5 text-left text-sm transition-colors hover:bg-white/20 ${chapter === current ? 'bg-white/20 text-white' : 'text-gray-300'}`}
+              onClick={() => onSelect(chapter)}
+            >
+              <span className="truncate">{chapter.title}</span>
+              <span className="shrink-0 text-xs text-gray-400">{formatTime(chapter.start)}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { MovieCard } from './MovieCard';
+import { Movie } from '@/services/tmdb';
+import { watchHistoryService } from '@/services/watch-history';
+import { useWatchHistory } from '@/hooks/use-watch-history';
+
+interface ContinueWatchingRowProps {
+  onMovieClick: (movie: Movie) => void;
+  onPlayMovie: (movie: Movie) => void;
+}
+
+export function ContinueWatchingRow({ onMovieClick, onPlayMovie }: ContinueWatchingRowProps) {
+  const entries = useWatchHistory();
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Card className="w-full bg-card/50 backdrop-blur-sm border-border/50">
+      <CardHeader className="flex flex-row items-center justify-between pb-4">
+        <CardTitle className="text-xl font-semibold text-foreground">
+          Continue Watching
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent>
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+          {entries.map((entry) => (
+            <div key={entry.id} className="relative group/entry space-y-2">
+              <MovieCard
+                movie={entry}
+                onClick={onMovieClick}
+                onPlay={onPlayMovie}
+              />
+
+              {/* Watched Progress */}
+              <div className="h-1 bg-white/20 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary"
+                  style={{ width: `${Math.min(100, (entry.position / entry.duration) * 100)}%` }}
+                />
+              </div>
+
+              {/* Remove from History */}
+              <EnhancedButton
+                variant="ghost"
+                size="icon"
+                className="absolute -top-2 -right-2 z-10 h-6 w-6 rounded-full bg-black/80 hover:bg-black text-white opacity-0 group-hover/entry:opacity-100 transition-opacity"
+                onClick={() => watchHistoryService.remove(entry.id)}
+                title="Remove from Continue Watching"
+              >
+                <X className="w-3 h-3" />
+              </EnhancedButton>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
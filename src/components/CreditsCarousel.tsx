@@ -0,0 +1,60 @@
+import { User } from 'lucide-react';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+
+export interface CreditPerson {
+  id: number;
+  name: string;
+  // Character for cast, job(s) for crew
+  role: string;
+  profile_path: string | null;
+}
+
+interface CreditsCarouselProps {
+  title: string;
+  people: CreditPerson[];
+}
+
+export function CreditsCarousel({ title, people }: CreditsCarouselProps) {
+  if (people.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold">{title}</h3>
+
+      <Carousel opts={{ align: 'start', dragFree: true }} className="px-10">
+        <CarouselContent>
+          {people.map((person) => (
+            <CarouselItem key={`${person.id}-${person.role}`} className="basis-1/3 sm:basis-1/5 md:basis-1/6 lg:basis-[12.5%]">
+              <div className="space-y-2">
+                <div className="aspect-[2/3] rounded-lg overflow-hidden bg-muted flex items-center justify-center">
+                  {person.profile_path ? (
+                    <img
+                      src={`https://image.tmdb.org/t/p/w185${person.profile_path}`}
+                      alt={person.name}
+                      loading="lazy"
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <User className="w-8 h-8 text-muted-foreground" />
+                  )}
+                </div>
+                <div>
+                  <p className="text-sm font-medium line-clamp-1">{person.name}</p>
+                  <p className="text-xs text-muted-foreground line-clamp-2">{person.role}</p>
+                </div>
+              </div>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious className="left-0" />
+        <CarouselNext className="right-0" />
+      </Carousel>
+    </div>
+  );
+}
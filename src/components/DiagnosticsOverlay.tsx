@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { Copy, X } from 'lucide-react';
+import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { PlaybackDiagnostics, formatBitrate } from '@/lib/diagnostics';
+import { toast } from '@/hooks/use-toast';
+
+interface DiagnosticsOverlayProps {
+  // Reads the current stats; null while nothing is playing directly
+  collect: () => PlaybackDiagnostics | null;
+  onClose: () => void;
+}
+
+const REFRESH_INTERVAL = 1000;
+
+function formatRows(stats: PlaybackDiagnostics): Array<[string, string]> {
+  const dropped = stats.droppedFrames !== null && stats.totalFrames
+    ? `${stats.droppedFrames} / ${stats.totalFrames} (${((stats.droppedFrames / stats.totalFrames) * 100).toFixed(1)}%)`
+    : '—';
+
+  return [
+    ['Source', stats.source],
+    ['Host', stats.host || '—'],
+    ['Stream', stats.streamType.toUpperCase()],
+    ['Resolution', stats.resolution ? `${stats.resolution.width}×${stats.resolution.height}` : '—'],
+    ['Bitrate', formatBitrate(stats.currentBitrate)],
+    ['Bandwidth estimate', formatBitrate(stats.estimatedBandwidth)],
+    ['Buffer health', `${stats.bufferHealth.toFixed(1)} s`],
+    ['Dropped frames', dropped],
+    ['Rebuffers', String(stats.rebufferCount)],
+    ['Time to first frame', stats.timeToFirstFrameMs !== null ? `${Math.round(stats.timeToFirstFrameMs)} ms` : '—'],
+    ['Playback rate', `${stats.playbackRate}x`],
+  ];
+}
+
+/**
+ * "Stats for nerds": live playback health, copyable as JSON for bug reports
+ */
+export function DiagnosticsOverlay({ collect, onClose }: DiagnosticsOverlayProps) {
+  const [stats, setStats] = useState(collect);
+
+  useEffect(() => {
+    setStats(collect());
+    const interval = setInterval(() => setStats(collect()), REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [collect]);
+
+  const handleCopy = async () => {
+    const snapshot = collect();
+    if (!snapshot) return;
+
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(snapshot, null, 2));
+      toast({ title: "Diagnostics copied", description: "Paste them into your bug report." });
+    } catch (error) {
+      console.error('Error copying diagnostics:', error);
+      toast({ title: "Couldn't copy diagnostics", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div
+      className="absolute top-4 left-4 z-30 w-80 rounded-lg border border-white/20 bg-black/80 p-3 font-mono text-xs text-white backdrop-blur-sm pointer-events-auto"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="mb-2 flex items-center justify-between">
+        <span className="font-sans text-sm font-semibold">Stats for nerds</span>
+        <EnhancedButton
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 text-white hover:bg-white/20"
+          onClick={onClose}
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </EnhancedButton>
+      </div>
+
+      {stats ? (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+          {formatRows(stats).map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-400">{label}</dt>
+              <dd className="truncate">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-gray-400">No direct stream playing.</p>
+      )}
+
+      <EnhancedButton
+        variant="ghost"
+        size="sm"
+        className="mt-3 w-full font-sans text-white hover:bg-white/20"
+        onClick={handleCopy}
+        disabled={!stats}
+      >
+        <Copy className="w-4 h-4" />
+        Copy diagnostics
+      </EnhancedButton>
+    </div>
+  );
+}
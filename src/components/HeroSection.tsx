@@ -1,14 +1,41 @@
-import { Play, Info, Star } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Play, Info, Star, Bookmark, BookmarkCheck } from 'lucide-react';
 import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { TrailerEmbed } from './TrailerEmbed';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { useMovieVideos } from '@/hooks/use-tmdb';
 import heroBackground from '@/assets/hero-background.jpg';
 
 interface HeroSectionProps {
   movie: any;
   onPlayMovie: (movie: any) => void;
   onShowDetails: (movie: any) => void;
+  // Play the movie's trailer muted behind the hero, over the backdrop
+  backgroundTrailer?: boolean;
 }
 
-export function HeroSection({ movie, onPlayMovie, onShowDetails }: HeroSectionProps) {
+/**
+ * Background video is skipped for users who asked for less motion or data
+ */
+function allowsBackgroundVideo(): boolean {
+  const reducedMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+  const saveData = (navigator as Navigator & { connection?: { saveData?: boolean } }).connection?.saveData;
+  return !reducedMotion && !saveData;
+}
+
+export function HeroSection({ movie, onPlayMovie, onShowDetails, backgroundTrailer = false }: HeroSectionProps) {
+  const { isInWatchlist, toggleWatchlist } = useWatchlist();
+  const inWatchlist = !!movie && isInWatchlist(movie.id);
+  const [trailerLoaded, setTrailerLoaded] = useState(false);
+  const trailerEnabled = backgroundTrailer && !!movie && allowsBackgroundVideo();
+  const { data: videos } = useMovieVideos(trailerEnabled ? movie.id : null);
+  const trailer = trailerEnabled ? videos?.[0] : undefined;
+
+  // The backdrop shows until the new movie's trailer has loaded
+  useEffect(() => {
+    setTrailerLoaded(false);
+  }, [trailer?.key]);
+
   const backgroundImage = movie?.backdrop_path 
     ? `url(https://image.tmdb.org/t/p/original${movie.backdrop_path})`
     : `url(${heroBackground})`;
@@ -23,6 +50,20 @@ export function HeroSection({ movie, onPlayMovie, onShowDetails }: HeroSectionPr
         className="absolute inset-0 bg-cover bg-center bg-no-repeat transform scale-105"
         style={{ backgroundImage }}
       />
+
+      {/* Background Trailer */}
+      {trailer && (
+        <div
+          className={`absolute inset-0 overflow-hidden pointer-events-none transition-opacity duration-1000 ${trailerLoaded ? 'opacity-100' : 'opacity-0'}`}
+        >
+          <TrailerEmbed
+            video={trailer}
+            background
+            onLoad={() => setTrailerLoaded(true)}
+            className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[177.78vh] min-w-full h-[56.25vw] min-h-full"
+          />
+        </div>
+      )}
       
       {/* Gradient Overlay */}
       <div className="absolute inset-0 hero-overlay" />
@@ -77,6 +118,22 @@ export function HeroSection({ movie, onPlayMovie, onShowDetails }: HeroSectionPr
                 More Info
               </EnhancedButton>
             )}
+
+            {movie && (
+              <EnhancedButton 
+                size="xl" 
+                variant="glass"
+                className="text-lg px-8 py-6"
+                onClick={() => toggleWatchlist(movie)}
+              >
+                {inWatchlist ? (
+                  <BookmarkCheck className="w-5 h-5 mr-2" />
+                ) : (
+                  <Bookmark className="w-5 h-5 mr-2" />
+                )}
+                {inWatchlist ? 'In Watchlist' : 'Watchlist'}
+              </EnhancedButton>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Loader2, LogOut, RefreshCw, Server } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { ValidationError, handleSecureError } from '@/lib/error-handler';
+import { toast } from '@/hooks/use-toast';
+import { isMixedContent, jellyfinService, normalizeServerUrl } from '@/services/jellyfin';
+import { jellyfinKeys, useJellyfinConnection, useJellyfinLibrary } from '@/hooks/use-jellyfin';
+
+interface JellyfinDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function JellyfinDialog({ isOpen, onClose }: JellyfinDialogProps) {
+  const connection = useJellyfinConnection();
+  const { data: library, isFetching: loadingLibrary } = useJellyfinLibrary();
+  const queryClient = useQueryClient();
+  const [serverUrl, setServerUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [signingIn, setSigningIn] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSigningIn(true);
+
+    try {
+      await jellyfinService.signIn(serverUrl, username, password);
+      setPassword('');
+    } catch (err) {
+      console.error('Jellyfin sign-in failed:', err);
+      // Our own validation messages are safe to show; anything else stays generic
+      if (err instanceof ValidationError) {
+        setError(err.message);
+      } else if (isMixedContent(normalizeServerUrl(serverUrl))) {
+        setError('This site is served over HTTPS, so your browser blocks requests to an http:// server. Use an HTTPS address for your server (for example through a reverse proxy), or open this app over http on your network.');
+      } else {
+        setError('Could not sign in. Check the server address and that it allows this site (CORS).');
+      }
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await jellyfinService.getLibraryIndex(true);
+      queryClient.invalidateQueries({ queryKey: jellyfinKeys.all });
+    } catch (err) {
+      console.error('Jellyfin library refresh failed:', err);
+      toast({
+        title: "Couldn't refresh library",
+        description: handleSecureError(err),
+        variant: "destructive",
+      });
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Server className="w-5 h-5 text-primary" />
+            Jellyfin Library
+          </DialogTitle>
+          <DialogDescription>
+            Play movies you own from your Jellyfin server.
+          </DialogDescription>
+        </DialogHeader>
+
+        {connection ? (
+          <div className="space-y-4">
+            <div className="rounded-lg bg-muted/50 p-4 text-sm space-y-1">
+              <p className="font-medium">{connection.serverName}</p>
+              <p className="text-muted-foreground break-all">{connection.serverUrl}</p>
+              <p className="text-muted-foreground">Signed in as {connection.userName}</p>
+              <p className="text-muted-foreground">
+                {loadingLibrary ? 'Reading library...' : `${library?.size ?? 0} movies matched to TMDB`}
+              </p>
+            </div>
+
+            <div className="flex gap-3">
+              <EnhancedButton variant="glass" className="flex-1" onClick={handleRefresh} disabled={refreshing || loadingLibrary}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${refreshing || loadingLibrary ? 'animate-spin' : ''}`} />
+                Refresh
+              </EnhancedButton>
+              <EnhancedButton variant="glass" className="flex-1" onClick={() => jellyfinService.signOut()}>
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign Out
+              </EnhancedButton>
+            </div>
+          </div>
+        ) : (
+          <form className="space-y-4" onSubmit={handleSignIn}>
+            <div className="space-y-2">
+              <Label htmlFor="jellyfin-server">Server address</Label>
+              <Input
+                id="jellyfin-server"
+                placeholder="https://jellyfin.example.com or 192.168.1.10:8096"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                autoComplete="url"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="jellyfin-username">Username</Label>
+              <Input
+                id="jellyfin-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="jellyfin-password">Password</Label>
+              <Input
+                id="jellyfin-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+              />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <EnhancedButton type="submit" variant="play" className="w-full" disabled={signingIn}>
+              {signingIn && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Connect
+            </EnhancedButton>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
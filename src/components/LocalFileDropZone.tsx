@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileVideo } from 'lucide-react';
+import { useOpenLocalMedia } from '@/hooks/use-local-playback';
+
+function hasFiles(event: DragEvent): boolean {
+  return !!event.dataTransfer?.types.includes('Files');
+}
+
+/**
+ * Lets a video (plus subtitles) be dropped anywhere on the app to play it
+ */
+export function LocalFileDropZone() {
+  const [isDragging, setIsDragging] = useState(false);
+  const openLocalMedia = useOpenLocalMedia();
+  const openRef = useRef(openLocalMedia);
+  openRef.current = openLocalMedia;
+
+  useEffect(() => {
+    // dragenter/dragleave fire for every child element, so count them
+    let depth = 0;
+
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      depth++;
+      setIsDragging(true);
+    };
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      // Required for the drop event to fire
+      event.preventDefault();
+    };
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setIsDragging(false);
+    };
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      depth = 0;
+      setIsDragging(false);
+      openRef.current(Array.from(event.dataTransfer.files));
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  if (!isDragging) return null;
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-sm pointer-events-none">
+      <div className="flex flex-col items-center gap-4 rounded-2xl border-2 border-dashed border-primary px-16 py-12 text-white">
+        <FileVideo className="w-16 h-16 text-primary" />
+        <p className="text-xl font-semibold">Drop to play</p>
+        <p className="text-sm text-gray-300">A video file, with optional .srt or .vtt subtitles</p>
+      </div>
+    </div>
+  );
+}
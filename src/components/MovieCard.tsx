@@ -1,5 +1,7 @@
-import { Star, Play, Info } from 'lucide-react';
+import { Star, Play, Info, Bookmark, BookmarkCheck, Server } from 'lucide-react';
 import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { useInLibrary } from '@/hooks/use-jellyfin';
 
 interface MovieCardProps {
   movie: any;
@@ -8,6 +10,10 @@ interface MovieCardProps {
 }
 
 export function MovieCard({ movie, onClick, onPlay }: MovieCardProps) {
+  const { isInWatchlist, toggleWatchlist } = useWatchlist();
+  const inWatchlist = isInWatchlist(movie.id);
+  const inLibrary = useInLibrary(movie.id);
+
   const handleCardClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     onClick(movie);
@@ -20,6 +26,11 @@ export function MovieCard({ movie, onClick, onPlay }: MovieCardProps) {
     }
   };
 
+  const handleWatchlistClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    toggleWatchlist(movie);
+  };
+
   return (
     <div className="movie-card relative group rounded-xl overflow-hidden">
       {/* Movie Poster */}
@@ -30,6 +41,14 @@ export function MovieCard({ movie, onClick, onPlay }: MovieCardProps) {
           className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110"
         />
         
+        {/* Library Badge */}
+        {inLibrary && (
+          <div className="absolute top-12 left-2 flex items-center gap-1 bg-black/70 text-white text-[10px] font-medium px-2 py-1 rounded-full backdrop-blur-sm">
+            <Server className="w-3 h-3 text-primary" />
+            In your library
+          </div>
+        )}
+
         {/* Hover Overlay */}
         <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
       </div>
@@ -76,6 +95,21 @@ export function MovieCard({ movie, onClick, onPlay }: MovieCardProps) {
         </div>
       </div>
       
+      {/* Watchlist Toggle */}
+      <EnhancedButton
+        variant="ghost"
+        size="icon"
+        onClick={handleWatchlistClick}
+        className={`absolute top-2 left-2 h-8 w-8 bg-black/60 hover:bg-black/80 text-white transition-opacity duration-300 ${inWatchlist ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+        title={inWatchlist ? 'Remove from Watchlist' : 'Add to Watchlist'}
+      >
+        {inWatchlist ? (
+          <BookmarkCheck className="w-4 h-4 text-primary" />
+        ) : (
+          <Bookmark className="w-4 h-4" />
+        )}
+      </EnhancedButton>
+
       {/* Rating Badge */}
       {movie.vote_average >= 8 && (
         <div className="absolute top-2 right-2 bg-primary text-primary-foreground text-xs font-bold px-2 py-1 rounded">
@@ -0,0 +1,38 @@
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import { MovieCard } from './MovieCard';
+import { Movie } from '@/services/tmdb';
+
+interface MovieCarouselProps {
+  title: string;
+  movies: Movie[];
+  onMovieClick: (movie: Movie) => void;
+  onPlayMovie: (movie: Movie) => void;
+}
+
+export function MovieCarousel({ title, movies, onMovieClick, onPlayMovie }: MovieCarouselProps) {
+  if (movies.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold">{title}</h3>
+
+      <Carousel opts={{ align: 'start', dragFree: true }} className="px-10">
+        <CarouselContent>
+          {movies.map((movie) => (
+            <CarouselItem key={movie.id} className="basis-1/2 sm:basis-1/3 md:basis-1/4 lg:basis-1/5">
+              <MovieCard movie={movie} onClick={onMovieClick} onPlay={onPlayMovie} />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious className="left-0" />
+        <CarouselNext className="right-0" />
+      </Carousel>
+    </div>
+  );
+}
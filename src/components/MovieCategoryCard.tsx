@@ -1,16 +1,15 @@
-import { useState, useEffect } from 'react';
+import { useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { EnhancedButton } from '@/components/ui/enhanced-button';
 import { MovieCard } from './MovieCard';
-import { tmdbService, Movie } from '@/services/tmdb';
+import { Movie } from '@/services/tmdb';
 import { Loader2, ChevronRight } from 'lucide-react';
-import { useToast } from '@/hooks/use-toast';
-import { handleSecureError } from '@/lib/error-handler';
 import { useInView } from 'react-intersection-observer';
+import { useCategoryMovies, flattenResults, MovieCategory } from '@/hooks/use-tmdb';
 
 interface MovieCategoryCardProps {
   title: string;
-  category: 'popular' | 'top_rated' | 'latest' | 'upcoming';
+  category: MovieCategory;
   onMovieClick: (movie: Movie) => void;
   onPlayMovie: (movie: Movie) => void;
   // Filter props
@@ -32,12 +31,20 @@ export function MovieCategoryCard({
   selectedAdult = 'false',
   selectedLanguage = 'all'
 }: MovieCategoryCardProps) {
-  const [movies, setMovies] = useState<Movie[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(0);
-  const [hasMore, setHasMore] = useState(true);
-  const { toast } = useToast();
+  const {
+    data,
+    isLoading,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+  } = useCategoryMovies(category, {
+    with_genres: selectedGenre === 'all' ? '' : selectedGenre,
+    year: selectedYear === 'all' ? '' : selectedYear,
+    adult_filter: selectedAdult === 'all' ? '' : selectedAdult,
+    with_original_language: selectedLanguage === 'all' ? '' : selectedLanguage,
+  });
+  const movies = flattenResults(data);
+  const loading = isLoading || isFetchingNextPage;
 
   // Infinite scroll setup
   const { ref, inView } = useInView({
@@ -45,79 +52,16 @@ export function MovieCategoryCard({
     triggerOnce: false,
   });
 
-  // Reset and reload when category or filters change
-  useEffect(() => {
-    setCurrentPage(1);
-    setMovies([]);
-    setHasMore(true);
-    loadMovies(1, false);
-  }, [category, selectedGenre, selectedYear, selectedSort, selectedAdult, selectedLanguage]);
-
   // Auto-load more when scroll sentinel comes into view
   useEffect(() => {
-    if (inView && hasMore && !loading && movies.length > 0) {
-      loadMovies(currentPage + 1, true);
-    }
-  }, [inView, hasMore, loading, currentPage, movies.length]);
-
-  const loadMovies = async (page = 1, append = false) => {
-    try {
-      setLoading(true);
-      let response;
-      
-      // Apply filters based on category
-      const shouldApplyFilters = category === 'popular' || category === 'top_rated';
-      
-      if (shouldApplyFilters) {
-        // Use discover API with filters for popular and top_rated categories
-        const discoverParams = {
-          page,
-          with_genres: selectedGenre === 'all' ? '' : selectedGenre,
-          year: selectedYear === 'all' ? '' : selectedYear,
-          sort_by: category === 'popular' ? 'popularity.desc' : 'vote_average.desc',
-          adult_filter: selectedAdult === 'all' ? '' : selectedAdult,
-          with_original_language: selectedLanguage === 'all' ? '' : selectedLanguage,
-        };
-        response = await tmdbService.discoverMovies(discoverParams);
-      } else {
-        // Use specific endpoints for latest and upcoming
-        switch (category) {
-          case 'latest':
-            response = await tmdbService.getLatestMovies(page);
-            break;
-          case 'upcoming':
-            response = await tmdbService.getUpcomingMovies(page);
-            break;
-          default:
-            response = await tmdbService.getPopularMovies(page);
-        }
-      }
-      
-      if (append) {
-        setMovies(prev => [...prev, ...response.results]);
-      } else {
-        setMovies(response.results || []);
-      }
-      
-      setTotalPages(response.total_pages);
-      setCurrentPage(page);
-      setHasMore(page < response.total_pages);
-    } catch (error) {
-      console.error(`Error loading ${category} movies:`, error);
-      const errorMessage = handleSecureError(error);
-      toast({
-        title: "Error",
-        description: errorMessage,
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
+    if (inView && hasNextPage && !isFetchingNextPage && movies.length > 0) {
+      fetchNextPage();
     }
-  };
+  }, [inView, hasNextPage, isFetchingNextPage, movies.length, fetchNextPage]);
 
   const handleLoadMore = () => {
-    if (hasMore && !loading) {
-      loadMovies(currentPage + 1, true);
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
     }
   };
 
@@ -155,7 +99,7 @@ export function MovieCategoryCard({
             )}
             
             {/* Infinite Scroll Sentinel and Load More Button */}
-            {hasMore && (
+            {hasNextPage && (
               <div ref={ref} className="flex justify-center mt-8">
                 {!loading && (
                   <EnhancedButton
@@ -1,25 +1,133 @@
-import { X, Play, Star, Calendar, Globe } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { X, Play, Film, Star, Calendar, Globe, Clock, Bookmark, BookmarkCheck, Loader2 } from 'lucide-react';
 import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { CreditsCarousel, CreditPerson } from './CreditsCarousel';
+import { MovieCarousel } from './MovieCarousel';
+import { TrailerEmbed } from './TrailerEmbed';
+import { Movie, MovieDetails, getCertification, rankVideos } from '@/services/tmdb';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { useMovieDetails } from '@/hooks/use-tmdb';
+import { useShortcuts } from '@/hooks/use-shortcuts';
 
 interface MovieModalProps {
-  movie: any;
+  movie: Movie | null;
   isOpen: boolean;
   onClose: () => void;
-  onPlay: (movie: any) => void;
+  onPlay: (movie: Movie) => void;
+  onSelectMovie?: (movie: Movie) => void;
 }
 
-export function MovieModal({ movie, isOpen, onClose, onPlay }: MovieModalProps) {
+// Crew jobs worth surfacing, in display order
+const FEATURED_CREW_JOBS = [
+  'Director',
+  'Screenplay',
+  'Writer',
+  'Story',
+  'Novel',
+  'Producer',
+  'Original Music Composer',
+  'Director of Photography',
+  'Editor',
+];
+
+const MAX_CAST = 20;
+const MAX_BACKDROPS = 12;
+
+function formatRuntime(minutes: number | null): string | null {
+  if (!minutes) return null;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+}
+
+function formatMoney(amount: number): string {
+  return amount > 0
+    ? amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })
+    : '—';
+}
+
+function getCastCredits(details: MovieDetails): CreditPerson[] {
+  return [...details.credits.cast]
+    .sort((a, b) => a.order - b.order)
+    .slice(0, MAX_CAST)
+    .map(member => ({ id: member.id, name: member.name, role: member.character, profile_path: member.profile_path }));
+}
+
+/**
+ * Featured crew, one entry per person with their jobs merged
+ */
+function getCrewCredits(details: MovieDetails): CreditPerson[] {
+  const people = new Map<number, CreditPerson & { rank: number }>();
+
+  for (const member of details.credits.crew) {
+    const rank = FEATURED_CREW_JOBS.indexOf(member.job);
+    if (rank === -1) continue;
+
+    const existing = people.get(member.id);
+    if (existing) {
+      if (!existing.role.includes(member.job)) existing.role += `, ${member.job}`;
+      existing.rank = Math.min(existing.rank, rank);
+    } else {
+      people.set(member.id, { id: member.id, name: member.name, role: member.job, profile_path: member.profile_path, rank });
+    }
+  }
+
+  return [...people.values()]
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ rank, ...person }) => person);
+}
+
+export function MovieModal({ movie, isOpen, onClose, onPlay, onSelectMovie }: MovieModalProps) {
+  const { isInWatchlist, toggleWatchlist } = useWatchlist();
+  const { data: details, isLoading: loadingDetails } = useMovieDetails(isOpen && movie ? movie.id : null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [showTrailer, setShowTrailer] = useState(false);
+
+  // Esc goes through the shortcut registry so it only ever closes the topmost overlay
+  useShortcuts({
+    id: 'movie-modal',
+    title: 'Movie details',
+    exclusive: true,
+    shortcuts: [
+      { keys: ['Escape'], description: 'Close details', handler: onClose, allowInInput: true },
+    ],
+  }, isOpen && !!movie);
+
+  // Picking a recommendation swaps the movie in place, so start it from the top
+  useEffect(() => {
+    contentRef.current?.scrollTo({ top: 0 });
+    setShowTrailer(false);
+  }, [movie?.id]);
+
   if (!movie) return null;
 
+  const inWatchlist = isInWatchlist(movie.id);
+  // The list item is shown straight away; details fill in once loaded
+  const current: Movie = details?.id === movie.id ? details : movie;
+  const extra = details?.id === movie.id ? details : null;
+  const certification = extra ? getCertification(extra) : null;
+  const runtime = extra ? formatRuntime(extra.runtime) : null;
+  const directors = extra?.credits.crew.filter(member => member.job === 'Director') ?? [];
+  const trailer = extra ? rankVideos(extra.videos.results)[0] : undefined;
+  // The hero already shows the main backdrop
+  const backdrops = extra?.images.backdrops
+    .filter(image => image.file_path !== current.backdrop_path)
+    .slice(0, MAX_BACKDROPS) ?? [];
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-4xl p-0 bg-card border-border overflow-hidden">
+      <DialogContent
+        ref={contentRef}
+        className="max-w-6xl p-0 bg-card border-border overflow-hidden max-h-[95vh] overflow-y-auto"
+        onEscapeKeyDown={(event) => event.preventDefault()}
+      >
         <DialogHeader className="sr-only">
-          <DialogTitle>{movie.title}</DialogTitle>
+          <DialogTitle>{current.title}</DialogTitle>
           <DialogDescription>Movie details and streaming options</DialogDescription>
         </DialogHeader>
-        <div className="relative">
+        <div className="relative min-w-0">
           {/* Close Button */}
           <EnhancedButton
             variant="ghost"
@@ -30,37 +138,114 @@ export function MovieModal({ movie, isOpen, onClose, onPlay }: MovieModalProps)
             <X className="w-5 h-5" />
           </EnhancedButton>
 
-          {/* Hero Image */}
-          <div className="relative h-64 md:h-80 overflow-hidden">
-            <img
-              src={`https://image.tmdb.org/t/p/original${movie.backdrop_path}`}
-              alt={movie.title}
-              className="w-full h-full object-cover"
-            />
-            <div className="absolute inset-0 bg-gradient-to-t from-card via-transparent to-transparent" />
-          </div>
+          {/* Trailer or Hero Image */}
+          {showTrailer && trailer ? (
+            <div className="aspect-video bg-black">
+              <TrailerEmbed video={trailer} className="w-full h-full" />
+            </div>
+          ) : (
+            <div className="relative h-64 md:h-96 overflow-hidden">
+              <img
+                src={`https://image.tmdb.org/t/p/original${current.backdrop_path}`}
+                alt={current.title}
+                className="w-full h-full object-cover"
+              />
+              <div className="absolute inset-0 bg-gradient-to-t from-card via-card/20 to-transparent" />
+            </div>
+          )}
 
           {/* Content */}
-          <div className="p-6 space-y-6">
+          <div className={`p-6 space-y-8 relative ${showTrailer && trailer ? '' : '-mt-24'}`}>
             {/* Title and Meta */}
-            <div className="space-y-4">
-              <h2 className="text-3xl font-bold">{movie.title}</h2>
-              
-              <div className="flex flex-wrap items-center gap-4 text-sm">
-                <div className="flex items-center space-x-1">
-                  <Star className="w-4 h-4 text-yellow-400 fill-current" />
-                  <span className="text-yellow-400 font-medium">{movie.vote_average?.toFixed(1)}</span>
-                  <span className="text-muted-foreground">({movie.vote_count} votes)</span>
-                </div>
-                
-                <div className="flex items-center space-x-1">
-                  <Calendar className="w-4 h-4 text-muted-foreground" />
-                  <span>{movie.release_date}</span>
+            <div className="flex gap-6">
+              <img
+                src={`https://image.tmdb.org/t/p/w342${current.poster_path}`}
+                alt=""
+                className="hidden md:block w-40 rounded-lg shadow-xl self-start"
+              />
+
+              <div className="space-y-4 min-w-0">
+                <h2 className="text-3xl md:text-4xl font-bold">{current.title}</h2>
+                {extra?.tagline && (
+                  <p className="italic text-muted-foreground">{extra.tagline}</p>
+                )}
+
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                  <div className="flex items-center space-x-1">
+                    <Star className="w-4 h-4 text-yellow-400 fill-current" />
+                    <span className="text-yellow-400 font-medium">{current.vote_average?.toFixed(1)}</span>
+                    <span className="text-muted-foreground">({current.vote_count} votes)</span>
+                  </div>
+
+                  <div className="flex items-center space-x-1">
+                    <Calendar className="w-4 h-4 text-muted-foreground" />
+                    <span>{current.release_date}</span>
+                  </div>
+
+                  {runtime && (
+                    <div className="flex items-center space-x-1">
+                      <Clock className="w-4 h-4 text-muted-foreground" />
+                      <span>{runtime}</span>
+                    </div>
+                  )}
+
+                  <div className="flex items-center space-x-1">
+                    <Globe className="w-4 h-4 text-muted-foreground" />
+                    <span>{current.original_language?.toUpperCase()}</span>
+                  </div>
+
+                  {certification && (
+                    <span className="border border-muted-foreground/60 rounded px-1.5 text-xs font-semibold">
+                      {certification}
+                    </span>
+                  )}
                 </div>
-                
-                <div className="flex items-center space-x-1">
-                  <Globe className="w-4 h-4 text-muted-foreground" />
-                  <span>{movie.original_language?.toUpperCase()}</span>
+
+                {extra && extra.genres.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {extra.genres.map((genre) => (
+                      <Badge key={genre.id} variant="secondary">{genre.name}</Badge>
+                    ))}
+                  </div>
+                )}
+
+                {/* Action Buttons */}
+                <div className="flex flex-col sm:flex-row gap-3 pt-2">
+                  <EnhancedButton
+                    size="lg"
+                    variant="play"
+                    onClick={() => onPlay(current)}
+                  >
+                    <Play className="w-5 h-5 mr-2 fill-current" />
+                    Watch Now
+                  </EnhancedButton>
+
+                  {trailer && (
+                    <EnhancedButton
+                      size="lg"
+                      variant="glass"
+                      onClick={() => {
+                        setShowTrailer(true);
+                        contentRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+                      }}
+                    >
+                      <Film className="w-5 h-5 mr-2" />
+                      Play Trailer
+                    </EnhancedButton>
+                  )}
+
+                  <EnhancedButton
+                    size="lg"
+                    variant="glass"
+                    onClick={() => toggleWatchlist(current)}
+                  >
+                    {inWatchlist ? (
+                      <BookmarkCheck className="w-5 h-5 mr-2" />
+                    ) : (
+                      <Bookmark className="w-5 h-5 mr-2" />
+                    )}
+                    {inWatchlist ? 'In Watchlist' : 'Add to Watchlist'}
+                  </EnhancedButton>
                 </div>
               </div>
             </div>
@@ -68,45 +253,118 @@ export function MovieModal({ movie, isOpen, onClose, onPlay }: MovieModalProps)
             {/* Overview */}
             <div className="space-y-2">
               <h3 className="text-lg font-semibold">Overview</h3>
-              <p className="text-muted-foreground leading-relaxed">{movie.overview}</p>
+              <p className="text-muted-foreground leading-relaxed">{current.overview}</p>
             </div>
 
-            {/* Additional Details */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-              <div>
-                <span className="font-medium">Popularity:</span>
-                <span className="ml-2 text-muted-foreground">{Math.round(movie.popularity)}</span>
+            {loadingDetails && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
               </div>
-              
-              <div>
-                <span className="font-medium">Adult Content:</span>
-                <span className="ml-2 text-muted-foreground">{movie.adult ? 'Yes' : 'No'}</span>
-              </div>
-            </div>
+            )}
 
-            {/* Action Buttons */}
-            <div className="flex flex-col sm:flex-row gap-3 pt-4">
-              <EnhancedButton 
-                size="lg" 
-                variant="play"
-                className="flex-1"
-                onClick={() => onPlay(movie)}
-              >
-                <Play className="w-5 h-5 mr-2 fill-current" />
-                Watch Now
-              </EnhancedButton>
-              
-              <EnhancedButton 
-                size="lg" 
-                variant="glass"
-                className="flex-1"
-              >
-                Add to Watchlist
-              </EnhancedButton>
-            </div>
+            {extra && (
+              <>
+                {/* Facts */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  {directors.length > 0 && (
+                    <div>
+                      <p className="font-medium">{directors.length > 1 ? 'Directors' : 'Director'}</p>
+                      <p className="text-muted-foreground">{directors.map(d => d.name).join(', ')}</p>
+                    </div>
+                  )}
+                  <div>
+                    <p className="font-medium">Status</p>
+                    <p className="text-muted-foreground">{extra.status || '—'}</p>
+                  </div>
+                  <div>
+                    <p className="font-medium">Budget</p>
+                    <p className="text-muted-foreground">{formatMoney(extra.budget)}</p>
+                  </div>
+                  <div>
+                    <p className="font-medium">Revenue</p>
+                    <p className="text-muted-foreground">{formatMoney(extra.revenue)}</p>
+                  </div>
+                  {extra.original_title && extra.original_title !== extra.title && (
+                    <div>
+                      <p className="font-medium">Original Title</p>
+                      <p className="text-muted-foreground">{extra.original_title}</p>
+                    </div>
+                  )}
+                </div>
+
+                <CreditsCarousel title="Cast" people={getCastCredits(extra)} />
+                <CreditsCarousel title="Crew" people={getCrewCredits(extra)} />
+
+                {/* Gallery */}
+                {backdrops.length > 0 && (
+                  <div className="space-y-3">
+                    <h3 className="text-lg font-semibold">Gallery</h3>
+                    <div className="flex gap-3 overflow-x-auto pb-2 snap-x">
+                      {backdrops.map((image) => (
+                        <img
+                          key={image.file_path}
+                          src={`https://image.tmdb.org/t/p/w300${image.file_path}`}
+                          alt=""
+                          loading="lazy"
+                          className="h-36 w-auto flex-shrink-0 rounded-lg object-cover snap-start"
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Production Companies */}
+                {extra.production_companies.length > 0 && (
+                  <div className="space-y-3">
+                    <h3 className="text-lg font-semibold">Production</h3>
+                    <div className="flex flex-wrap items-center gap-4">
+                      {extra.production_companies.map((company) => (
+                        <div key={company.id} className="flex items-center gap-2 rounded-lg bg-muted/50 px-3 py-2 text-sm">
+                          {company.logo_path && (
+                            <img
+                              src={`https://image.tmdb.org/t/p/w92${company.logo_path}`}
+                              alt=""
+                              loading="lazy"
+                              className="h-5 w-auto object-contain bg-white/90 rounded px-1"
+                            />
+                          )}
+                          <span>{company.name}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Keywords */}
+                {extra.keywords.keywords.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {extra.keywords.keywords.map((keyword) => (
+                      <Badge key={keyword.id} variant="outline" className="font-normal">{keyword.name}</Badge>
+                    ))}
+                  </div>
+                )}
+
+                {onSelectMovie && (
+                  <>
+                    <MovieCarousel
+                      title="Recommended"
+                      movies={extra.recommendations.results}
+                      onMovieClick={onSelectMovie}
+                      onPlayMovie={onPlay}
+                    />
+                    <MovieCarousel
+                      title="More Like This"
+                      movies={extra.similar.results}
+                      onMovieClick={onSelectMovie}
+                      onPlayMovie={onPlay}
+                    />
+                  </>
+                )}
+              </>
+            )}
           </div>
         </div>
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
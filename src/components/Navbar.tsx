@@ -1,22 +1,77 @@
-import { useState } from 'react';
-import { Search, Menu, X } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Search, Menu, X, ChevronDown, Server, FolderOpen } from 'lucide-react';
 import { EnhancedButton } from '@/components/ui/enhanced-button';
 import { Input } from '@/components/ui/input';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useGenres, useSearch, useTvSearch, flattenResults, SearchType } from '@/hooks/use-tmdb';
+import { useShortcuts } from '@/hooks/use-shortcuts';
+import { useJellyfinConnection } from '@/hooks/use-jellyfin';
+import { useOpenLocalMedia } from '@/hooks/use-local-playback';
+import { pickMediaFiles } from '@/lib/local-media';
+import { JellyfinDialog } from './JellyfinDialog';
 
 interface NavbarProps {
-  onSearch: (query: string) => void;
-  searchResults: any[];
   onSelectMovie: (movie: any) => void;
+  // Which catalog the quick search dropdown looks in
+  searchType?: SearchType;
 }
 
-export function Navbar({ onSearch, searchResults, onSelectMovie }: NavbarProps) {
+// Quick search only kicks in once the query is specific enough
+const MIN_QUICK_SEARCH_LENGTH = 3;
+
+export function Navbar({ onSelectMovie, searchType = 'movie' }: NavbarProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [showMobileMenu, setShowMobileMenu] = useState(false);
   const [showSearchResults, setShowSearchResults] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const jellyfin = useJellyfinConnection();
+  const openLocalMedia = useOpenLocalMedia();
+
+  const handleOpenFile = async () => {
+    setShowMobileMenu(false);
+    try {
+      openLocalMedia(await pickMediaFiles());
+    } catch (error) {
+      console.error('Error picking files:', error);
+    }
+  };
+  const navigate = useNavigate();
+  const { data: genres = [] } = useGenres();
+  const desktopSearchRef = useRef<HTMLInputElement>(null);
+  const mobileSearchRef = useRef<HTMLInputElement>(null);
+
+  useShortcuts({
+    id: 'catalog',
+    title: 'Browsing',
+    shortcuts: [
+      {
+        keys: ['/'],
+        description: 'Focus search',
+        handler: () => {
+          const input = desktopSearchRef.current;
+          // The desktop field is hidden on small screens, so open the menu holding the mobile one
+          if (input?.offsetParent) {
+            input.focus();
+          } else {
+            setShowMobileMenu(true);
+            requestAnimationFrame(() => mobileSearchRef.current?.focus());
+          }
+        },
+      },
+    ],
+  });
+
+  const quickQuery = searchQuery.length >= MIN_QUICK_SEARCH_LENGTH ? searchQuery : '';
+  const movieSearch = useSearch(searchType === 'movie' ? quickQuery : '');
+  const tvSearch = useTvSearch(searchType === 'tv' ? quickQuery : '');
+  // Shows are mapped onto the movie field names the dropdown renders
+  const searchResults = searchType === 'tv'
+    ? flattenResults(tvSearch.data).map(show => ({ ...show, title: show.name, release_date: show.first_air_date }))
+    : flattenResults(movieSearch.data);
 
   const handleSearchChange = (value: string) => {
     setSearchQuery(value);
-    onSearch(value);
     setShowSearchResults(value.length > 0);
   };
 
@@ -26,24 +81,53 @@ export function Navbar({ onSearch, searchResults, onSelectMovie }: NavbarProps)
     setShowSearchResults(false);
   };
 
+  const handleSearchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+
+    navigate(`/search?q=${encodeURIComponent(query)}`);
+    setShowSearchResults(false);
+    setShowMobileMenu(false);
+  };
+
+  const genresMenu = (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="flex items-center text-foreground hover:text-primary transition-colors">
+        Genres
+        <ChevronDown className="w-4 h-4 ml-1" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="bg-card border-border max-h-80 overflow-y-auto">
+        {genres.map((genre) => (
+          <DropdownMenuItem key={genre.id} asChild>
+            <Link to={`/genre/${genre.id}`}>{genre.name}</Link>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
   return (
     <nav className="fixed top-0 left-0 right-0 z-50 glass border-b border-border/50">
       <div className="container mx-auto px-4 py-4">
         <div className="flex items-center justify-between">
           {/* Logo */}
           <div className="flex items-center space-x-4">
-            <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
-              CLOUDSTREAM
-            </h1>
+            <Link to="/">
+              <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+                CLOUDSTREAM
+              </h1>
+            </Link>
           </div>
 
           {/* Desktop Search */}
           <div className="hidden md:flex flex-1 max-w-md mx-8 relative">
-            <div className="relative w-full">
+            <form className="relative w-full" onSubmit={handleSearchSubmit} role="search">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
               <Input
+                ref={desktopSearchRef}
                 type="text"
-                placeholder="Search movies..."
+                placeholder="Search..."
                 value={searchQuery}
                 onChange={(e) => handleSearchChange(e.target.value)}
                 className="pl-10 bg-background/50 border-border/50 focus:border-primary/50 transition-colors"
@@ -73,14 +157,32 @@ export function Navbar({ onSearch, searchResults, onSelectMovie }: NavbarProps)
                   ))}
                 </div>
               )}
-            </div>
+            </form>
           </div>
 
           {/* Desktop Navigation */}
           <div className="hidden md:flex items-center space-x-6">
-            <a href="#home" className="text-foreground hover:text-primary transition-colors">Home</a>
-            <a href="#movies" className="text-foreground hover:text-primary transition-colors">Movies</a>
-            <a href="#genres" className="text-foreground hover:text-primary transition-colors">Genres</a>
+            <Link to="/" className="text-foreground hover:text-primary transition-colors">Home</Link>
+            <Link to="/search" className="text-foreground hover:text-primary transition-colors">Movies</Link>
+            <Link to="/tv" className="text-foreground hover:text-primary transition-colors">Series</Link>
+            {genresMenu}
+            <Link to="/watchlist" className="text-foreground hover:text-primary transition-colors">Watchlist</Link>
+            <EnhancedButton
+              variant="ghost"
+              size="icon"
+              onClick={handleOpenFile}
+              title="Play a file from this device"
+            >
+              <FolderOpen className="w-5 h-5" />
+            </EnhancedButton>
+            <EnhancedButton
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowLibrary(true)}
+              title={jellyfin ? `Jellyfin: ${jellyfin.serverName}` : 'Connect Jellyfin library'}
+            >
+              <Server className={`w-5 h-5 ${jellyfin ? 'text-primary' : ''}`} />
+            </EnhancedButton>
           </div>
 
           {/* Mobile Menu Button */}
@@ -99,27 +201,46 @@ export function Navbar({ onSearch, searchResults, onSelectMovie }: NavbarProps)
           <div className="md:hidden mt-4 pb-4 border-t border-border/50">
             <div className="mt-4 space-y-4">
               {/* Mobile Search */}
-              <div className="relative">
+              <form className="relative" onSubmit={handleSearchSubmit} role="search">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                 <Input
+                  ref={mobileSearchRef}
                   type="text"
-                  placeholder="Search movies..."
+                  placeholder="Search..."
                   value={searchQuery}
                   onChange={(e) => handleSearchChange(e.target.value)}
                   className="pl-10 bg-background/50 border-border/50"
                 />
-              </div>
+              </form>
               
               {/* Mobile Navigation Links */}
               <div className="flex flex-col space-y-2">
-                <a href="#home" className="text-foreground hover:text-primary transition-colors py-2">Home</a>
-                <a href="#movies" className="text-foreground hover:text-primary transition-colors py-2">Movies</a>
-                <a href="#genres" className="text-foreground hover:text-primary transition-colors py-2">Genres</a>
+                <Link to="/" className="text-foreground hover:text-primary transition-colors py-2">Home</Link>
+                <Link to="/search" className="text-foreground hover:text-primary transition-colors py-2">Movies</Link>
+                <Link to="/tv" className="text-foreground hover:text-primary transition-colors py-2">Series</Link>
+                <div className="py-2">{genresMenu}</div>
+                <Link to="/watchlist" className="text-foreground hover:text-primary transition-colors py-2">Watchlist</Link>
+                <button
+                  type="button"
+                  className="text-left text-foreground hover:text-primary transition-colors py-2"
+                  onClick={handleOpenFile}
+                >
+                  Play Local File
+                </button>
+                <button
+                  type="button"
+                  className="text-left text-foreground hover:text-primary transition-colors py-2"
+                  onClick={() => setShowLibrary(true)}
+                >
+                  {jellyfin ? `Jellyfin: ${jellyfin.serverName}` : 'Connect Jellyfin'}
+                </button>
               </div>
             </div>
           </div>
         )}
       </div>
+
+      <JellyfinDialog isOpen={showLibrary} onClose={() => setShowLibrary(false)} />
     </nav>
   );
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { Suspense, lazy, useCallback } from 'react';
+import { useMovieNavigation } from '@/hooks/use-movie-navigation';
+import { usePlayerSession } from '@/hooks/use-player-session';
+import { playerSessionService } from '@/services/player-session';
+
+const VideoPlayer = lazy(() => import('@/components/VideoPlayer').then(m => ({ default: m.VideoPlayer })));
+
+/**
+ * Renders the player for the current session, full-screen or docked as the
+ * mini-player. It sits outside the routes so playback survives navigation.
+ */
+export function PersistentPlayer() {
+  const session = usePlayerSession();
+  const { openPlayer, playMovie, closeOverlay } = useMovieNavigation();
+
+  // Minimize before leaving the watch route so leaving doesn't end playback
+  const handleMinimize = useCallback(() => {
+    playerSessionService.minimize();
+    closeOverlay();
+  }, [closeOverlay]);
+
+  const handleExpand = useCallback(() => {
+    if (session) openPlayer(session.path, session.movie ?? undefined);
+  }, [session, openPlayer]);
+
+  // Full-screen, closing leaves the watch route, which ends the session
+  const handleClose = useCallback(() => {
+    if (session?.minimized) {
+      playerSessionService.close();
+    } else {
+      closeOverlay();
+    }
+  }, [session?.minimized, closeOverlay]);
+
+  if (!session) return null;
+
+  return (
+    <Suspense fallback={null}>
+      <VideoPlayer
+        movieId={session.movieId}
+        movieTitle={session.movieTitle}
+        isOpen
+        movie={session.movie}
+        sources={session.sources}
+        minimized={session.minimized}
+        onMinimize={handleMinimize}
+        onExpand={handleExpand}
+        onPlayNext={playMovie}
+        onClose={handleClose}
+      />
+    </Suspense>
+  );
+}
@@ -0,0 +1,120 @@
+import { useRef, useState } from 'react';
+import { Slider } from '@/components/ui/slider';
+import { ThumbnailCue, findThumbnail } from '@/lib/thumbnails';
+import { Chapter, getChapterAt } from '@/lib/chapters';
+
+interface SeekBarProps {
+  progress: number;
+  duration: number;
+  onSeek: (value: number[]) => void;
+  formatTime: (seconds: number) => string;
+  // Preview frames; without them the preview is just the time
+  thumbnails?: ThumbnailCue[];
+  // Marked on the bar and named in the preview
+  chapters?: Chapter[];
+}
+
+// Widest a preview frame is drawn, whatever the tile size
+const PREVIEW_MAX_WIDTH = 192;
+// Size for cues that show a whole image rather than a tile
+const FULL_IMAGE_SIZE = { width: 160, height: 90 };
+
+function ThumbnailFrame({ cue }: { cue: ThumbnailCue }) {
+  if (!cue.tile) {
+    return (
+      <img
+        src={cue.url}
+        alt=""
+        className="block object-cover"
+        style={FULL_IMAGE_SIZE}
+      />
+    );
+  }
+
+  const { x, y, width, height } = cue.tile;
+  const scale = Math.min(1, PREVIEW_MAX_WIDTH / width);
+
+  return (
+    <div className="overflow-hidden" style={{ width: width * scale, height: height * scale }}>
+      <div
+        style={{
+          width,
+          height,
+          backgroundImage: `url("${cue.url}")`,
+          backgroundPosition: `-${x}px -${y}px`,
+          transform: `scale(${scale})`,
+          transformOrigin: 'top left',
+        }}
+      />
+    </div>
+  );
+}
+
+/**
+ * The player's progress slider with a preview of the time under the pointer
+ */
+export function SeekBar({ progress, duration, onSeek, formatTime, thumbnails, chapters }: SeekBarProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [hover, setHover] = useState<{ time: number; fraction: number } | null>(null);
+
+  // Tracks both hovering and dragging, which Radix reports as pointer moves too
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || !rect.width || !duration) return;
+
+    const fraction = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    setHover({ time: fraction * duration, fraction });
+  };
+
+  const cue = hover && thumbnails ? findThumbnail(thumbnails, hover.time) : null;
+  const hoverChapter = hover && chapters ? getChapterAt(chapters, hover.time) : null;
+  // Chapter boundaries inside the video; the first chapter's start needs no mark
+  const ticks = duration && chapters ? chapters.filter(chapter => chapter.start > 0 && chapter.start < duration) : [];
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative flex-1 flex items-center"
+      onPointerMove={handlePointerMove}
+      onPointerLeave={() => setHover(null)}
+    >
+      {hover && (
+        <div
+          className="absolute bottom-full mb-4 -translate-x-1/2 flex flex-col items-center gap-1 pointer-events-none"
+          // Keep the preview from running off either end of the bar
+          style={{ left: `clamp(${PREVIEW_MAX_WIDTH / 2}px, ${hover.fraction * 100}%, calc(100% - ${PREVIEW_MAX_WIDTH / 2}px))` }}
+        >
+          {cue && (
+            <div className="rounded-md overflow-hidden border border-white/20 bg-black shadow-lg">
+              <ThumbnailFrame cue={cue} />
+            </div>
+          )}
+          {hoverChapter && (
+            <span className="max-w-48 truncate text-white text-xs bg-black/80 rounded px-2 py-0.5">
+              {hoverChapter.title}
+            </span>
+          )}
+          <span className="text-white text-xs font-medium bg-black/80 rounded px-2 py-0.5">
+            {formatTime(hover.time)}
+          </span>
+        </div>
+      )}
+
+      <Slider
+        value={[progress]}
+        max={duration}
+        step={1}
+        onValueChange={onSeek}
+        className="flex-1"
+      />
+
+      {ticks.map(chapter => (
+        <span
+          key={chapter.start}
+          className="absolute top-1/2 h-2 w-0.5 -translate-y-1/2 bg-black/70 pointer-events-none"
+          style={{ left: `${(chapter.start / duration) * 100}%` }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { formatShortcutKey } from '@/lib/shortcuts';
+import { useShortcutGroups, useShortcuts } from '@/hooks/use-shortcuts';
+
+const HELP_GROUP_ID = 'shortcuts-help';
+
+/**
+ * "?" overlay listing every shortcut that is currently registered
+ */
+export function ShortcutsHelp() {
+  const [isOpen, setIsOpen] = useState(false);
+  const groups = useShortcutGroups();
+
+  useShortcuts({
+    id: 'general',
+    title: 'General',
+    global: true,
+    shortcuts: [
+      { keys: ['?'], description: 'Show keyboard shortcuts', handler: () => setIsOpen(open => !open) },
+    ],
+  });
+
+  // While open, Esc closes this overlay rather than whatever is underneath
+  useShortcuts({
+    id: HELP_GROUP_ID,
+    title: 'Keyboard shortcuts',
+    exclusive: true,
+    shortcuts: [
+      { keys: ['Escape'], description: 'Close', handler: () => setIsOpen(false), allowInInput: true },
+    ],
+  }, isOpen);
+
+  // Most specific first: the player or modal on top, general shortcuts last
+  const visibleGroups = groups
+    .filter(group => group.id !== HELP_GROUP_ID)
+    .slice()
+    .reverse();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent
+        className="max-w-2xl bg-card border-border max-h-[85vh] overflow-y-auto"
+        onEscapeKeyDown={(event) => event.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>Shortcuts available on this screen</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 sm:grid-cols-2">
+          {visibleGroups.map((group) => (
+            <section key={group.id} className="space-y-2">
+              <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">{group.title}</h3>
+              <dl className="space-y-1.5">
+                {group.shortcuts.map((shortcut) => (
+                  <div key={shortcut.description} className="flex items-center justify-between gap-4 text-sm">
+                    <dt>{shortcut.description}</dt>
+                    <dd className="flex shrink-0 gap-1">
+                      {(shortcut.label ? [shortcut.label] : shortcut.keys.map(formatShortcutKey)).map((key) => (
+                        <kbd key={key} className="min-w-[1.75rem] rounded border border-border bg-muted px-1.5 py-0.5 text-center font-mono text-xs">
+                          {key}
+                        </kbd>
+                      ))}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+import { useSubtitlePreferences } from '@/hooks/use-subtitles';
+
+interface SubtitleOverlayProps {
+  // Sanitized cue HTML, one entry per active cue
+  cues: string[];
+  // Lift the text clear of the control bar while it is visible
+  raised?: boolean;
+}
+
+export function SubtitleOverlay({ cues, raised = false }: SubtitleOverlayProps) {
+  const { fontSize, color, backgroundOpacity } = useSubtitlePreferences();
+
+  if (cues.length === 0) return null;
+
+  return (
+    <div
+      className={`absolute inset-x-0 z-10 flex flex-col items-center gap-1 px-4 pointer-events-none transition-all duration-300 ${raised ? 'bottom-40' : 'bottom-12'}`}
+      aria-live="polite"
+    >
+      {cues.map((html, index) => (
+        <span
+          key={index}
+          className="max-w-4xl text-center leading-snug rounded px-2 py-0.5"
+          style={{
+            // Scales with the viewport like broadcast captions, then by the user's preference
+            fontSize: `calc(clamp(1rem, 2.4vw, 2.25rem) * ${fontSize / 100})`,
+            color,
+            backgroundColor: `rgba(0, 0, 0, ${backgroundOpacity})`,
+            textShadow: backgroundOpacity < 0.3 ? '0 0 4px rgba(0, 0, 0, 0.9)' : undefined,
+          }}
+          dangerouslySetInnerHTML={{ __html: html }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useRef } from 'react';
+import { Upload, Minus, Plus } from 'lucide-react';
+import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SUBTITLE_FILE_TYPES } from '@/lib/subtitles';
+import { SubtitleTrack, SUBTITLES_OFF, useSubtitlePreferences } from '@/hooks/use-subtitles';
+import { playbackPreferencesService } from '@/services/playback-preferences';
+
+interface SubtitleSettingsProps {
+  tracks: SubtitleTrack[];
+  currentTrack: string;
+  onSelectTrack: (id: string) => void;
+  onLoadFile: (file: File) => void;
+  offset: number;
+  onOffsetChange: (offset: number) => void;
+}
+
+const SUBTITLE_COLORS = [
+  { value: '#ffffff', label: 'White' },
+  { value: '#ffeb3b', label: 'Yellow' },
+  { value: '#4dd0e1', label: 'Cyan' },
+  { value: '#a5d6a7', label: 'Green' },
+];
+
+const OFFSET_STEP = 0.5;
+
+const SOURCE_LABELS: Record<SubtitleTrack['source'], string> = {
+  embedded: '',
+  sidecar: '',
+  file: ' (file)',
+};
+
+export function SubtitleSettings({ tracks, currentTrack, onSelectTrack, onLoadFile, offset, onOffsetChange }: SubtitleSettingsProps) {
+  const { fontSize, color, backgroundOpacity } = useSubtitlePreferences();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onLoadFile(file);
+    // Allow loading the same file again after editing it
+    event.target.value = '';
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Track */}
+      <div>
+        <label className="text-white text-sm font-medium mb-2 block">Subtitles</label>
+        <div className="flex gap-2">
+          <Select value={currentTrack} onValueChange={onSelectTrack}>
+            <SelectTrigger className="bg-white/10 border-white/20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SUBTITLES_OFF}>Off</SelectItem>
+              {tracks.map((track) => (
+                <SelectItem key={track.id} value={track.id}>
+                  {track.label}{SOURCE_LABELS[track.source]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <EnhancedButton
+            variant="ghost"
+            size="icon"
+            className="shrink-0 text-white hover:bg-white/20"
+            onClick={() => fileInputRef.current?.click()}
+            title="Load subtitle file (.srt, .vtt)"
+          >
+            <Upload className="w-4 h-4" />
+          </EnhancedButton>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={SUBTITLE_FILE_TYPES}
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+      </div>
+
+      {currentTrack !== SUBTITLES_OFF && (
+        <>
+          {/* Font Size */}
+          <div>
+            <label className="text-white text-sm font-medium mb-2 flex justify-between">
+              <span>Font Size</span>
+              <span className="text-white/60">{fontSize}%</span>
+            </label>
+            <Slider
+              value={[fontSize]}
+              min={50}
+              max={200}
+              step={10}
+              onValueChange={([value]) => playbackPreferencesService.updateSubtitles({ fontSize: value })}
+            />
+          </div>
+
+          {/* Colour */}
+          <div>
+            <label className="text-white text-sm font-medium mb-2 block">Colour</label>
+            <div className="flex gap-2">
+              {SUBTITLE_COLORS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  className={`w-7 h-7 rounded-full border-2 transition-transform ${color === option.value ? 'border-primary scale-110' : 'border-white/30'}`}
+                  style={{ backgroundColor: option.value }}
+                  onClick={() => playbackPreferencesService.updateSubtitles({ color: option.value })}
+                  title={option.label}
+                  aria-label={option.label}
+                  aria-pressed={color === option.value}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Background */}
+          <div>
+            <label className="text-white text-sm font-medium mb-2 flex justify-between">
+              <span>Background</span>
+              <span className="text-white/60">{Math.round(backgroundOpacity * 100)}%</span>
+            </label>
+            <Slider
+              value={[backgroundOpacity]}
+              min={0}
+              max={1}
+              step={0.1}
+              onValueChange={([value]) => playbackPreferencesService.updateSubtitles({ backgroundOpacity: value })}
+            />
+          </div>
+
+          {/* Timing Offset */}
+          <div>
+            <label className="text-white text-sm font-medium mb-2 block">Timing</label>
+            <div className="flex items-center justify-between gap-2">
+              <EnhancedButton
+                variant="ghost"
+                size="icon"
+                className="text-white hover:bg-white/20"
+                onClick={() => onOffsetChange(offset - OFFSET_STEP)}
+                title="Show subtitles earlier"
+              >
+                <Minus className="w-4 h-4" />
+              </EnhancedButton>
+              <button
+                type="button"
+                className="text-white text-sm tabular-nums hover:underline"
+                onClick={() => onOffsetChange(0)}
+                title="Reset timing"
+              >
+                {offset > 0 ? '+' : ''}{offset.toFixed(1)}s
+              </button>
+              <EnhancedButton
+                variant="ghost"
+                size="icon"
+                className="text-white hover:bg-white/20"
+                onClick={() => onOffsetChange(offset + OFFSET_STEP)}
+                title="Show subtitles later"
+              >
+                <Plus className="w-4 h-4" />
+              </EnhancedButton>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { Video } from '@/services/tmdb';
+
+// Privacy-enhanced YouTube host; must stay in sync with frame-src in vercel.json
+const EMBED_HOST = 'https://www.youtube-nocookie.com';
+
+interface TrailerEmbedProps {
+  video: Video;
+  // Muted, looping and non-interactive, for use behind other content
+  background?: boolean;
+  className?: string;
+  onLoad?: () => void;
+}
+
+function getTrailerEmbedUrl(video: Video, background = false): string {
+  const params = new URLSearchParams({
+    autoplay: '1',
+    rel: '0',
+    modestbranding: '1',
+    playsinline: '1',
+  });
+
+  if (background) {
+    params.set('mute', '1');
+    params.set('controls', '0');
+    params.set('disablekb', '1');
+    // YouTube only loops a single video when it is also the playlist
+    params.set('loop', '1');
+    params.set('playlist', video.key);
+  }
+
+  return `${EMBED_HOST}/embed/${encodeURIComponent(video.key)}?${params.toString()}`;
+}
+
+export function TrailerEmbed({ video, background = false, className, onLoad }: TrailerEmbedProps) {
+  return (
+    <iframe
+      src={getTrailerEmbedUrl(video, background)}
+      title={video.name}
+      className={className}
+      allow="autoplay; encrypted-media; picture-in-picture; fullscreen"
+      allowFullScreen={!background}
+      referrerPolicy="strict-origin-when-cross-origin"
+      tabIndex={background ? -1 : undefined}
+      aria-hidden={background || undefined}
+      onLoad={onLoad}
+    />
+  );
+}
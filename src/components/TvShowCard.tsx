@@ -0,0 +1,69 @@
+import { Star, Info } from 'lucide-react';
+import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { TvShow } from '@/services/tmdb';
+
+interface TvShowCardProps {
+  show: TvShow;
+  onClick: (show: TvShow) => void;
+}
+
+export function TvShowCard({ show, onClick }: TvShowCardProps) {
+  const handleCardClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onClick(show);
+  };
+
+  return (
+    <div className="movie-card relative group rounded-xl overflow-hidden cursor-pointer" onClick={handleCardClick}>
+      {/* Show Poster */}
+      <div className="relative aspect-[2/3] overflow-hidden">
+        <img
+          src={`https://image.tmdb.org/t/p/w500${show.poster_path}`}
+          alt={show.name}
+          className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110"
+        />
+
+        {/* Hover Overlay */}
+        <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
+      </div>
+
+      {/* Show Info Footer */}
+      <div className="absolute bottom-0 left-0 right-0 p-3 bg-gradient-to-t from-black/95 via-black/80 to-transparent">
+        <h3 className="font-semibold text-white line-clamp-2 mb-2 text-sm">
+          {show.name}
+        </h3>
+
+        <div className="flex items-center justify-between text-xs mb-3">
+          <div className="flex items-center space-x-1">
+            <Star className="w-3 h-3 text-yellow-400 fill-current" />
+            <span className="text-yellow-400 font-medium">
+              {show.vote_average?.toFixed(1)}
+            </span>
+          </div>
+
+          <span className="text-gray-300">
+            {show.first_air_date?.split('-')[0]}
+          </span>
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+          <EnhancedButton
+            size="sm"
+            variant="glass"
+            onClick={handleCardClick}
+            className="flex-1 h-8 text-xs"
+          >
+            <Info className="w-3 h-3 mr-1" />
+            Episodes
+          </EnhancedButton>
+        </div>
+      </div>
+
+      {/* Series Badge */}
+      <div className="absolute top-2 left-2 bg-black/70 text-white text-xs font-bold px-2 py-1 rounded">
+        SERIES
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react';
+import { X, Star, Calendar, Globe, Tv, Loader2, Clock } from 'lucide-react';
+import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TvShow } from '@/services/tmdb';
+import { useTvShowDetails, useSeasonDetails } from '@/hooks/use-tmdb';
+import { useShortcuts } from '@/hooks/use-shortcuts';
+
+interface TvShowModalProps {
+  show: TvShow | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function TvShowModal({ show, isOpen, onClose }: TvShowModalProps) {
+  const [selectedSeason, setSelectedSeason] = useState<string>('');
+  const { data: details } = useTvShowDetails(isOpen && show ? show.id : null);
+  const { data: season, isFetching: loadingSeason } = useSeasonDetails(
+    show?.id ?? null,
+    selectedSeason === '' ? null : parseInt(selectedSeason, 10)
+  );
+
+  useShortcuts({
+    id: 'tv-show-modal',
+    title: 'Series details',
+    exclusive: true,
+    shortcuts: [
+      { keys: ['Escape'], description: 'Close details', handler: onClose, allowInInput: true },
+    ],
+  }, isOpen && !!show);
+
+  // Forget the picked season whenever a different show opens
+  useEffect(() => {
+    setSelectedSeason('');
+  }, [show?.id]);
+
+  // Default to the first regular season, falling back to specials
+  useEffect(() => {
+    if (!details || details.id !== show?.id || selectedSeason !== '') return;
+    const firstSeason = details.seasons?.find(s => s.season_number > 0) || details.seasons?.[0];
+    if (firstSeason) {
+      setSelectedSeason(firstSeason.season_number.toString());
+    }
+  }, [details, show?.id, selectedSeason]);
+
+  if (!show) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent
+        className="max-w-4xl p-0 bg-card border-border overflow-hidden max-h-[90vh] overflow-y-auto"
+        onEscapeKeyDown={(event) => event.preventDefault()}
+      >
+        <DialogHeader className="sr-only">
+          <DialogTitle>{show.name}</DialogTitle>
+          <DialogDescription>Series details, seasons and episodes</DialogDescription>
+        </DialogHeader>
+        <div className="relative">
+          {/* Close Button */}
+          <EnhancedButton
+            variant="ghost"
+            size="icon"
+            className="absolute top-4 right-4 z-10 bg-black/50 hover:bg-black/70 text-white"
+            onClick={onClose}
+          >
+            <X className="w-5 h-5" />
+          </EnhancedButton>
+
+          {/* Hero Image */}
+          <div className="relative h-64 md:h-80 overflow-hidden">
+            <img
+              src={`https://image.tmdb.org/t/p/original${show.backdrop_path}`}
+              alt={show.name}
+              className="w-full h-full object-cover"
+            />
+            <div className="absolute inset-0 bg-gradient-to-t from-card via-transparent to-transparent" />
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-6">
+            {/* Title and Meta */}
+            <div className="space-y-4">
+              <h2 className="text-3xl font-bold">{show.name}</h2>
+              {details?.tagline && (
+                <p className="italic text-muted-foreground">{details.tagline}</p>
+              )}
+
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <div className="flex items-center space-x-1">
+                  <Star className="w-4 h-4 text-yellow-400 fill-current" />
+                  <span className="text-yellow-400 font-medium">{show.vote_average?.toFixed(1)}</span>
+                  <span className="text-muted-foreground">({show.vote_count} votes)</span>
+                </div>
+
+                <div className="flex items-center space-x-1">
+                  <Calendar className="w-4 h-4 text-muted-foreground" />
+                  <span>{show.first_air_date}</span>
+                </div>
+
+                <div className="flex items-center space-x-1">
+                  <Globe className="w-4 h-4 text-muted-foreground" />
+                  <span>{show.original_language?.toUpperCase()}</span>
+                </div>
+
+                {details && (
+                  <div className="flex items-center space-x-1">
+                    <Tv className="w-4 h-4 text-muted-foreground" />
+                    <span>
+                      {details.number_of_seasons} seasons • {details.number_of_episodes} episodes
+                    </span>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Overview */}
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold">Overview</h3>
+              <p className="text-muted-foreground leading-relaxed">{show.overview}</p>
+            </div>
+
+            {/* Season Picker */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <h3 className="text-lg font-semibold">Episodes</h3>
+                {details && details.seasons?.length > 0 && (
+                  <div className="w-48">
+                    <Select value={selectedSeason} onValueChange={setSelectedSeason}>
+                      <SelectTrigger className="bg-card/50 border-border/50">
+                        <SelectValue placeholder="Season" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-card border-border max-h-60">
+                        {details.seasons.map((s) => (
+                          <SelectItem key={s.id} value={s.season_number.toString()}>
+                            {s.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              {/* Episode List */}
+              {!details || loadingSeason ? (
+                <div className="flex justify-center items-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : season?.episodes?.length ? (
+                <div className="space-y-3">
+                  {season.episodes.map((episode) => (
+                    <div key={episode.id} className="flex gap-4 p-3 rounded-lg bg-muted/20">
+                      <div className="w-40 shrink-0 aspect-video rounded overflow-hidden bg-muted">
+                        {episode.still_path && (
+                          <img
+                            src={`https://image.tmdb.org/t/p/w300${episode.still_path}`}
+                            alt={episode.name}
+                            className="w-full h-full object-cover"
+                            loading="lazy"
+                          />
+                        )}
+                      </div>
+                      <div className="min-w-0 space-y-1">
+                        <h4 className="font-medium">
+                          {episode.episode_number}. {episode.name}
+                        </h4>
+                        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                          {episode.air_date && <span>{episode.air_date}</span>}
+                          {episode.runtime > 0 && (
+                            <span className="flex items-center gap-1">
+                              <Clock className="w-3 h-3" />
+                              {episode.runtime} min
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-muted-foreground line-clamp-3">{episode.overview}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-muted-foreground text-sm">No episodes listed for this season yet.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
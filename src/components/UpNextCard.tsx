@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { Play, X } from 'lucide-react';
+import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { Movie, tmdbService } from '@/services/tmdb';
+
+interface UpNextCardProps {
+  movie: Movie;
+  // Count down and play automatically; the countdown holds while false
+  autoplay?: boolean;
+  onPlay: (movie: Movie) => void;
+  onDismiss: () => void;
+}
+
+const AUTOPLAY_DELAY = 10;
+
+/**
+ * Offered once the credits start: a recommended movie to play next
+ */
+export function UpNextCard({ movie, autoplay = false, onPlay, onDismiss }: UpNextCardProps) {
+  const [remaining, setRemaining] = useState(AUTOPLAY_DELAY);
+  const year = movie.release_date?.slice(0, 4);
+
+  useEffect(() => {
+    if (!autoplay) return;
+    if (remaining <= 0) {
+      onPlay(movie);
+      return;
+    }
+
+    const timer = setTimeout(() => setRemaining(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [autoplay, remaining, movie, onPlay]);
+
+  return (
+    <div className="absolute bottom-40 right-4 z-30 flex w-96 max-w-[calc(100%-2rem)] gap-4 rounded-lg border border-white/20 bg-black/90 p-4 backdrop-blur-sm pointer-events-auto">
+      {movie.poster_path && (
+        <img
+          src={tmdbService.getImageUrl(movie.poster_path, 'w185')}
+          alt=""
+          className="w-20 shrink-0 rounded object-cover"
+        />
+      )}
+      <div className="flex min-w-0 flex-1 flex-col gap-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-xs uppercase tracking-wide text-gray-400">
+              Up Next{autoplay ? ` in ${remaining}s` : ''}
+            </p>
+            <p className="truncate font-semibold text-white">{movie.title}</p>
+            {year && <p className="text-sm text-gray-400">{year}</p>}
+          </div>
+          <EnhancedButton
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0 text-white hover:bg-white/20"
+            onClick={onDismiss}
+            title="Keep watching the credits"
+          >
+            <X className="w-4 h-4" />
+          </EnhancedButton>
+        </div>
+        <EnhancedButton variant="play" size="sm" className="mt-auto self-start" onClick={() => onPlay(movie)}>
+          <Play className="w-4 h-4" />
+          Play Now
+        </EnhancedButton>
+      </div>
+    </div>
+  );
+}
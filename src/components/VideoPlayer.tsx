@@ -1,118 +1,161 @@
-import { X, AlertCircle, Play, Pause, Volume2, VolumeX, Maximize, RotateCcw, Loader2, Settings, Languages, SkipForward, SkipBack } from 'lucide-react';
+import { X, AlertCircle, Play, Pause, Volume2, VolumeX, Maximize, Maximize2, Minimize2, PictureInPicture2, RotateCcw, Loader2, Settings, Languages, SkipForward, SkipBack, Activity } from 'lucide-react';
 import { EnhancedButton } from '@/components/ui/enhanced-button';
-import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { useState, useRef, useEffect, useCallback, useReducer } from 'react';
 import { Slider } from '@/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Movie } from '@/services/tmdb';
+import { watchHistoryService } from '@/services/watch-history';
+import {
+  StreamingPlayer,
+  QualityLevel,
+  createStreamingPlayer,
+  getMediaElement,
+  loadStream,
+  getQualityLevels,
+  getActiveQualityIndex,
+  setQualityLevel,
+  capQualityLevels,
+  onQualityLevelsChange,
+  getActiveBitrate,
+  getBandwidthEstimate,
+} from '@/lib/streaming';
+import { collectPlaybackDiagnostics } from '@/lib/diagnostics';
+import { matchesLanguage } from '@/lib/subtitles';
+import { playerReducer, initialPlayerState, isLoadingStatus, isDirectPlayback } from '@/lib/player-machine';
+import { SUBTITLES_OFF, useSubtitles, useSubtitlePreferences } from '@/hooks/use-subtitles';
+import { SubtitleOverlay } from './SubtitleOverlay';
+import { SubtitleSettings } from './SubtitleSettings';
+import { useShortcuts } from '@/hooks/use-shortcuts';
+import { useMediaSession } from '@/hooks/use-media-session';
+import { useSeekThumbnails } from '@/hooks/use-seek-thumbnails';
+import { useChapters } from '@/hooks/use-chapters';
+import { useMovieDetails } from '@/hooks/use-tmdb';
+import { getChapterAt } from '@/lib/chapters';
+import { hasAudioEnhancement, releaseAudioEnhancement } from '@/lib/audio-enhancement';
+import { useAudioEnhancement, useAudioTracks } from '@/hooks/use-audio';
+import { usePlaybackPreferences } from '@/hooks/use-playback-preferences';
+import { playbackPreferencesService } from '@/services/playback-preferences';
+import { Switch } from '@/components/ui/switch';
+import { SeekBar } from './SeekBar';
+import { ChapterList } from './ChapterList';
+import { AudioSettings } from './AudioSettings';
+import { UpNextCard } from './UpNextCard';
+import { DiagnosticsOverlay } from './DiagnosticsOverlay';
+import { usePlaybackSources } from '@/hooks/use-playback-sources';
+import { PlaybackSource } from '@/services/playback-sources';
 
 interface VideoPlayerProps {
   movieId: number;
   movieTitle: string;
   isOpen: boolean;
   onClose: () => void;
+  // Full movie metadata, used to record watch history
+  movie?: Movie | null;
+  // Play these instead of asking the playback providers, e.g. a local file
+  sources?: PlaybackSource[];
+  // Docked in the corner as the mini-player instead of covering the page
+  minimized?: boolean;
+  onMinimize?: () => void;
+  onExpand?: () => void;
+  // Offered a recommendation to play once the credits start
+  onPlayNext?: (movie: Movie) => void;
 }
 
-interface QualityLevel {
-  index: number;
-  label: string;
-  height: number;
-  width: number;
-  bandwidth: number;
-}
-
-interface SubtitleTrack {
-  index: number;
-  label: string;
-  language: string;
-}
+const NO_SOURCES: PlaybackSource[] = [];
 
 const CONTROLS_HIDE_DELAY = 3000;
 const SKIP_DURATION = 10;
+// Arrow keys take smaller steps than J/L
+const ARROW_SEEK_DURATION = 5;
+const VOLUME_STEP = 0.1;
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const HISTORY_SAVE_INTERVAL = 10;
+
+export function VideoPlayer({ movieId, movieTitle, isOpen, onClose, movie, sources, minimized = false, onMinimize, onExpand, onPlayNext }: VideoPlayerProps) {
+  // Sources from the configured playback providers
+  const providerSources = usePlaybackSources(isOpen && !sources ? movieId : null);
+  const videoSources = sources ?? providerSources.data ?? NO_SOURCES;
+  // Stale lists (providers changed since they were resolved) are waited on rather than started and then replaced
+  const resolvingSources = !sources && (providerSources.isPending || (providerSources.isFetching && providerSources.isStale));
 
-export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlayerProps) {
-  // State management
-  const [currentSource, setCurrentSource] = useState(0);
-  const [hasError, setHasError] = useState(false);
-  const [errorMessage, setErrorMessage] = useState('');
-  const [isLoading, setIsLoading] = useState(true);
+  // Source loading and playback lifecycle
+  const [playerState, dispatch] = useReducer(playerReducer, initialPlayerState);
+  const { status, sourceIndex: currentSource, message: errorMessage } = playerState;
+  const isLoading = isLoadingStatus(status) || (isOpen && resolvingSources);
+  const hasError = status === 'error';
+  const useIframe = playerState.mode === 'iframe' && status === 'ready';
+  const canPlayDirectly = isDirectPlayback(playerState);
+  const isPlaying = status === 'playing';
+  const isBuffering = status === 'buffering';
+  // Constant for the whole of one load attempt, so the loader runs exactly once per attempt
+  const activeAttempt = status === 'idle' ? 0 : playerState.attempt;
+
+  // UI state
   const [showControls, setShowControls] = useState(true);
   const [showSettings, setShowSettings] = useState(false);
-  const [currentQuality, setCurrentQuality] = useState('auto');
-  const [currentSubtitle, setCurrentSubtitle] = useState('off');
+  const { maxQuality, autoplayNext } = usePlaybackPreferences();
   const [qualityLevels, setQualityLevels] = useState<QualityLevel[]>([]);
-  const [subtitleTracks, setSubtitleTracks] = useState<SubtitleTrack[]>([]);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const [activeQuality, setActiveQuality] = useState(-1);
+  // Rendition picked by hand for this stream, or null to let ABR choose
+  const [pinnedQuality, setPinnedQuality] = useState<number | null>(null);
   const [isMuted, setIsMuted] = useState(false);
   const [volume, setVolume] = useState(1);
   const [progress, setProgress] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [isBuffering, setIsBuffering] = useState(false);
   const [playbackRate, setPlaybackRate] = useState(1);
-  const [useIframe, setUseIframe] = useState(false);
-  const [canPlayDirectly, setCanPlayDirectly] = useState(false);
+  const [resumePosition, setResumePosition] = useState<number | null>(null);
+  const [isPictureInPicture, setIsPictureInPicture] = useState(false);
+  const [upNextDismissed, setUpNextDismissed] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
   
   // Refs
+  // Points at the media element inside the video.js player
   const videoRef = useRef<HTMLVideoElement>(null);
+  const playerRef = useRef<StreamingPlayer | null>(null);
+  const playerContainerRef = useRef<HTMLDivElement>(null);
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const controlsTimeoutRef = useRef<NodeJS.Timeout>();
   const containerRef = useRef<HTMLDivElement>(null);
-  const retryCountRef = useRef(0);
-
-  // Enhanced video sources with both direct and embed URLs
-  const videoSources = useMemo(() => [
-    // Direct video URLs (try these first)
-    {
-      type: 'direct',
-      url: `https://vidsrc.to/embed/movie/${movieId}`,
-      name: 'VidSrc Direct'
-    },
-    {
-      type: 'direct', 
-      url: `https://multiembed.mov/directstream.php?video_id=${movieId}&tmdb=1`,
-      name: 'MultiEmbed Direct'
-    },
-    // Embed URLs (fallback)
-    {
-      type: 'embed',
-      url: `https://autoembed.co/movie/tmdb/${movieId}`,
-      name: 'AutoEmbed'
-    },
-    {
-      type: 'embed',
-      url: `https://player.smashy.stream/movie/${movieId}`,
-      name: 'Smashy Stream'
-    },
-    {
-      type: 'embed',
-      url: `https://embed.su/embed/movie/${movieId}`,
-      name: 'Embed.su'
-    },
-    {
-      type: 'embed',
-      url: `https://vidsrc.xyz/embed/movie?tmdb=${movieId}`,
-      name: 'VidSrc XYZ'
-    },
-    {
-      type: 'embed',
-      url: `https://2embed.org/embed/movie?tmdb=${movieId}`,
-      name: '2Embed'
-    },
-    {
-      type: 'embed',
-      url: `https://www.2embed.to/embed/tmdb/movie?id=${movieId}`,
-      name: '2Embed.to'
-    }
-  ], [movieId]);
+  const progressRef = useRef(0);
+  const durationRef = useRef(0);
+  const lastSavedRef = useRef(0);
+  // Diagnostics for the current load attempt
+  const resolvedUrlRef = useRef('');
+  const timeToFirstFrameRef = useRef<number | null>(null);
+  const rebufferCountRef = useRef(0);
+
+  const subtitles = useSubtitles(
+    canPlayDirectly ? playerRef.current : null,
+    videoSources[currentSource]?.subtitles
+  );
+  const { language: preferredSubtitleLanguage } = useSubtitlePreferences();
+  const audioTracks = useAudioTracks(canPlayDirectly ? playerRef.current : null);
+  const audioEnhancementAvailable = useAudioEnhancement(canPlayDirectly ? videoRef.current : null);
+  const thumbnails = useSeekThumbnails(canPlayDirectly ? videoSources[currentSource]?.thumbnails : undefined);
+
+  // Chapters, plus the intro and credits segments among them
+  const chapters = useChapters(canPlayDirectly ? videoSources[currentSource]?.chapters : undefined);
+  const currentChapter = chapters ? getChapterAt(chapters, progress) : null;
+  const inIntro = currentChapter?.type === 'intro';
+  const inCredits = currentChapter?.type === 'credits';
+  // Recommendations are only fetched once there is something to offer them for
+  const { data: details } = useMovieDetails(inCredits && onPlayNext ? movieId || null : null);
+  const nextMovie = details?.recommendations.results[0] ?? details?.similar.results[0];
 
   // Format time helper
   const formatTime = useCallback((seconds: number): string => {
     if (!seconds || !isFinite(seconds)) return '0:00';
-    const mins = Math.floor(seconds / 60);
+    const hours = Math.floor(seconds / 3600);
+    const mins = Math.floor((seconds % 3600) / 60);
     const secs = Math.floor(seconds % 60);
+    if (hours > 0) {
+      return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    }
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   }, []);
 
   // Try to extract direct video URL from embed pages
-  const extractDirectVideoUrl = useCallback(async (embedUrl: string): Promise<string | null> => {
+  const extractDirectVideoUrl = useCallback(async (embedUrl: string, signal: AbortSignal): Promise<string | null> => {
     try {
       // This is a simplified approach - in reality, you'd need a backend service
       // to extract video URLs from embed pages due to CORS restrictions
@@ -127,11 +170,12 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
 
       for (const url of directUrlPatterns) {
         try {
-          const response = await fetch(url, { method: 'HEAD' });
+          const response = await fetch(url, { method: 'HEAD', signal });
           if (response.ok && response.headers.get('content-type')?.includes('video')) {
             return url;
           }
         } catch (e) {
+          if (signal.aborted) return null;
           continue;
         }
       }
@@ -143,140 +187,155 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
     }
   }, []);
 
-  // Enhanced error handling
-  const handleError = useCallback((error: any, sourceIndex: number) => {
-    console.error(`Video error on source ${sourceIndex + 1}:`, error);
-    
-    if (sourceIndex < videoSources.length - 1) {
-      setCurrentSource(sourceIndex + 1);
-      setErrorMessage(`${videoSources[sourceIndex].name} failed, trying next...`);
-      setIsLoading(true);
-    } else {
-      setHasError(true);
-      setIsLoading(false);
-      setErrorMessage('All video sources failed to load. Please try again later.');
+  // Load a direct or adaptive (HLS/DASH) source into the streaming engine
+  const tryDirectVideo = useCallback(async (url: string, mimeType: string | undefined, signal: AbortSignal): Promise<void> => {
+    const container = playerContainerRef.current;
+    if (!container) {
+      throw new Error('Video element not available');
     }
-  }, [videoSources]);
 
-  // Try loading video source
-  const tryLoadSource = useCallback(async (sourceIndex: number) => {
-    if (sourceIndex >= videoSources.length) {
-      handleError(new Error('All sources exhausted'), sourceIndex);
-      return;
+    // An element routed into Web Audio can't leave it, so the next source gets a fresh one
+    if (playerRef.current && videoRef.current && hasAudioEnhancement(videoRef.current)) {
+      releaseAudioEnhancement(videoRef.current);
+      playerRef.current.dispose();
+      playerRef.current = null;
+    }
+
+    if (!playerRef.current) {
+      playerRef.current = createStreamingPlayer(container, { autoplay: true });
     }
+    const player = playerRef.current;
+    const video = getMediaElement(player);
+    videoRef.current = video;
 
-    const source = videoSources[sourceIndex];
-    setIsLoading(true);
-    setHasError(false);
-    setErrorMessage(`Loading ${source.name}...`);
-    setUseIframe(false);
-    setCanPlayDirectly(false);
+    // Start with the viewer's saved volume, speed and quality cap
+    const preferences = playbackPreferencesService.getSnapshot();
+    video.volume = preferences.volume;
+    video.muted = preferences.muted;
+    // Loading a source resets the rate to the default rate
+    video.defaultPlaybackRate = preferences.playbackRate;
+    video.playbackRate = preferences.playbackRate;
 
-    try {
-      if (source.type === 'direct') {
-        // Try to load as direct video
-        await tryDirectVideo(source.url, sourceIndex);
-      } else {
-        // Try to extract direct URL first, then fallback to iframe
-        const directUrl = await extractDirectVideoUrl(source.url);
-        if (directUrl) {
-          await tryDirectVideo(directUrl, sourceIndex);
-        } else {
-          // Use iframe as fallback
-          setUseIframe(true);
-          setIsLoading(false);
-          setCanPlayDirectly(false);
-        }
-      }
-    } catch (error) {
-      console.error(`Failed to load source ${sourceIndex + 1}:`, error);
-      handleError(error, sourceIndex);
+    setQualityLevels([]);
+    setPinnedQuality(null);
+
+    resolvedUrlRef.current = url;
+    timeToFirstFrameRef.current = null;
+    rebufferCountRef.current = 0;
+    const loadStartedAt = performance.now();
+
+    await loadStream(player, url, mimeType, signal);
+
+    timeToFirstFrameRef.current = performance.now() - loadStartedAt;
+
+    if (preferences.maxQuality) {
+      capQualityLevels(player, preferences.maxQuality);
     }
-  }, [videoSources, handleError, extractDirectVideoUrl]);
+    setDuration(video.duration || 0);
+    durationRef.current = video.duration || 0;
+  }, []);
+
+  // Start from the first source once the title's sources are known
+  useEffect(() => {
+    if (!isOpen || resolvingSources) return;
+
+    progressRef.current = 0;
+    durationRef.current = 0;
+    lastSavedRef.current = 0;
+    dispatch({ type: 'OPEN', sourceCount: videoSources.length });
 
-  // Try loading direct video
-  const tryDirectVideo = useCallback(async (url: string, sourceIndex: number): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      if (!videoRef.current) {
-        reject(new Error('Video element not available'));
+    return () => {
+      dispatch({ type: 'CLOSE' });
+    };
+  }, [isOpen, resolvingSources, videoSources]);
+
+  // Run the current load attempt; switching source, retrying or closing aborts it
+  useEffect(() => {
+    if (!activeAttempt) return;
+
+    const source = videoSources[currentSource];
+    // The sources changed under the attempt; let the reducer move on or give up
+    if (!source) {
+      dispatch({ type: 'FAILED', attempt: activeAttempt, message: '' });
+      return;
+    }
+
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const load = async () => {
+      // Embeds may expose a direct stream; otherwise they are shown as-is
+      const directUrl = source.type === 'direct' ? source.url : await extractDirectVideoUrl(source.url, signal);
+      if (signal.aborted) return;
+
+      if (!directUrl) {
+        playerRef.current?.reset();
+        dispatch({ type: 'RESOLVED', attempt: activeAttempt, mode: 'iframe' });
         return;
       }
 
-      const video = videoRef.current;
-      
-      // Reset video element
-      video.src = '';
-      video.load();
-
-      const onLoadedData = () => {
-        setIsLoading(false);
-        setCanPlayDirectly(true);
-        setUseIframe(false);
-        setDuration(video.duration || 0);
-        retryCountRef.current = 0;
-        cleanup();
-        resolve();
-      };
-
-      const onError = () => {
-        console.error(`Direct video failed for source ${sourceIndex + 1}`);
-        cleanup();
-        reject(new Error('Direct video load failed'));
-      };
-
-      const onLoadStart = () => {
-        setIsBuffering(true);
-      };
-
-      const onCanPlay = () => {
-        setIsBuffering(false);
-      };
-
-      const cleanup = () => {
-        video.removeEventListener('loadeddata', onLoadedData);
-        video.removeEventListener('error', onError);
-        video.removeEventListener('loadstart', onLoadStart);
-        video.removeEventListener('canplay', onCanPlay);
-      };
-
-      // Add event listeners
-      video.addEventListener('loadeddata', onLoadedData);
-      video.addEventListener('error', onError);
-      video.addEventListener('loadstart', onLoadStart);
-      video.addEventListener('canplay', onCanPlay);
-
-      // Set source and try to load
-      video.src = url;
-      video.load();
-
-      // Timeout after 10 seconds
-      setTimeout(() => {
-        if (isLoading) {
-          cleanup();
-          reject(new Error('Video load timeout'));
-        }
-      }, 10000);
+      dispatch({ type: 'RESOLVED', attempt: activeAttempt, mode: 'direct' });
+      await tryDirectVideo(directUrl, source.type === 'direct' ? source.mimeType : undefined, signal);
+      dispatch({ type: 'LOADED', attempt: activeAttempt });
+    };
+
+    load().catch((error) => {
+      if (signal.aborted) return;
+      console.error(`Failed to load source ${currentSource + 1}:`, error);
+      dispatch({ type: 'FAILED', attempt: activeAttempt, message: `${source.name} failed, trying next...` });
     });
-  }, [isLoading]);
 
-  // Initialize player
+    return () => {
+      controller.abort();
+    };
+  }, [activeAttempt, currentSource, videoSources, extractDirectVideoUrl, tryDirectVideo]);
+
+  // Tear the streaming engine down with the player
   useEffect(() => {
     if (!isOpen) return;
 
-    setCurrentSource(0);
-    setHasError(false);
-    setIsLoading(true);
-    retryCountRef.current = 0;
-    
-    tryLoadSource(0);
-  }, [isOpen, movieId, tryLoadSource]);
+    return () => {
+      if (videoRef.current) releaseAudioEnhancement(videoRef.current);
+      playerRef.current?.dispose();
+      playerRef.current = null;
+    };
+  }, [isOpen]);
+
+  // Look up where this title was left off
+  useEffect(() => {
+    if (!isOpen || !movieId) return;
+
+    let cancelled = false;
+    setResumePosition(null);
+    watchHistoryService.getResumePosition(movieId).then((position) => {
+      if (!cancelled) setResumePosition(position);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, movieId]);
 
-  // Handle source changes
+  // Each title gets its own up-next offer
   useEffect(() => {
-    if (currentSource > 0) {
-      tryLoadSource(currentSource);
+    setUpNextDismissed(false);
+  }, [movieId]);
+
+  // Persist the playback position when the player closes or switches title
+  useEffect(() => {
+    if (!isOpen || !movie) return;
+
+    return () => {
+      watchHistoryService.savePosition(movie, progressRef.current, durationRef.current);
+    };
+  }, [isOpen, movie]);
+
+  // Hold playback until the viewer picks resume or start over
+  useEffect(() => {
+    if (canPlayDirectly && resumePosition !== null) {
+      videoRef.current?.pause();
     }
-  }, [currentSource, tryLoadSource]);
+  }, [canPlayDirectly, resumePosition]);
 
   // Setup video event listeners for direct playback
   useEffect(() => {
@@ -284,17 +343,39 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
 
     const video = videoRef.current;
 
-    const handlePlay = () => setIsPlaying(true);
-    const handlePause = () => setIsPlaying(false);
+    const handlePlay = () => dispatch({ type: 'PLAY' });
+    const handlePause = () => dispatch({ type: 'PAUSE' });
     const handleVolumeChange = () => {
       setVolume(video.volume);
       setIsMuted(video.muted);
+      playbackPreferencesService.update({ volume: video.volume, muted: video.muted });
     };
-    const handleTimeUpdate = () => setProgress(video.currentTime);
-    const handleDurationChange = () => setDuration(video.duration || 0);
-    const handleWaiting = () => setIsBuffering(true);
-    const handleCanPlay = () => setIsBuffering(false);
-    const handleRateChange = () => setPlaybackRate(video.playbackRate);
+    const handleTimeUpdate = () => {
+      setProgress(video.currentTime);
+      progressRef.current = video.currentTime;
+
+      // Periodically checkpoint so a crash or reload doesn't lose the position
+      if (movie && Math.abs(video.currentTime - lastSavedRef.current) >= HISTORY_SAVE_INTERVAL) {
+        lastSavedRef.current = video.currentTime;
+        watchHistoryService.savePosition(movie, video.currentTime, video.duration);
+      }
+    };
+    const handleDurationChange = () => {
+      setDuration(video.duration || 0);
+      durationRef.current = video.duration || 0;
+    };
+    const handleWaiting = () => {
+      // Waiting for data after a seek isn't a stall
+      if (!video.seeking) rebufferCountRef.current++;
+      dispatch({ type: 'WAITING' });
+    };
+    const handleCanPlay = () => dispatch({ type: 'CAN_PLAY', paused: video.paused });
+    const handleRateChange = () => {
+      setPlaybackRate(video.playbackRate);
+      playbackPreferencesService.update({ playbackRate: video.playbackRate });
+    };
+    const handleEnterPictureInPicture = () => setIsPictureInPicture(true);
+    const handleLeavePictureInPicture = () => setIsPictureInPicture(false);
 
     video.addEventListener('play', handlePlay);
     video.addEventListener('pause', handlePause);
@@ -304,6 +385,14 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
     video.addEventListener('waiting', handleWaiting);
     video.addEventListener('canplay', handleCanPlay);
     video.addEventListener('ratechange', handleRateChange);
+    video.addEventListener('enterpictureinpicture', handleEnterPictureInPicture);
+    video.addEventListener('leavepictureinpicture', handleLeavePictureInPicture);
+
+    // Autoplay may have started before these listeners were attached
+    if (!video.paused) handlePlay();
+    handleVolumeChange();
+    handleRateChange();
+    setIsPictureInPicture(document.pictureInPictureElement === video);
 
     return () => {
       video.removeEventListener('play', handlePlay);
@@ -314,7 +403,23 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
       video.removeEventListener('waiting', handleWaiting);
       video.removeEventListener('canplay', handleCanPlay);
       video.removeEventListener('ratechange', handleRateChange);
+      video.removeEventListener('enterpictureinpicture', handleEnterPictureInPicture);
+      video.removeEventListener('leavepictureinpicture', handleLeavePictureInPicture);
     };
+  }, [canPlayDirectly, movie]);
+
+  // Track the stream's renditions and which one ABR is currently playing
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!canPlayDirectly || !player) return;
+
+    const update = () => {
+      setQualityLevels(getQualityLevels(player));
+      setActiveQuality(getActiveQualityIndex(player));
+    };
+
+    update();
+    return onQualityLevelsChange(player, update);
   }, [canPlayDirectly]);
 
   // Enhanced controls visibility management
@@ -393,6 +498,28 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
     }
   }, []);
 
+  const togglePictureInPicture = useCallback(() => {
+    if (!canPlayDirectly || !videoRef.current || !document.pictureInPictureEnabled) return;
+
+    if (document.pictureInPictureElement) {
+      document.exitPictureInPicture().catch(console.error);
+    } else {
+      videoRef.current.requestPictureInPicture().catch(console.error);
+    }
+  }, [canPlayDirectly]);
+
+  // The resume prompt needs an answer first; it doesn't fit in the mini-player
+  const canMinimize = !!onMinimize && !minimized && resumePosition === null;
+
+  const minimizePlayer = useCallback(() => {
+    if (!canMinimize) return;
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(console.error);
+    }
+    setShowSettings(false);
+    onMinimize();
+  }, [canMinimize, onMinimize]);
+
   const handlePlaybackRateChange = useCallback((rate: string) => {
     if (!canPlayDirectly || !videoRef.current) return;
     const video = videoRef.current;
@@ -400,54 +527,232 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
     setPlaybackRate(parseFloat(rate));
   }, [canPlayDirectly]);
 
-  const resetPlayer = useCallback(() => {
-    setCurrentSource(0);
-    setHasError(false);
-    setErrorMessage('');
-    setIsLoading(true);
-    setUseIframe(false);
-    setCanPlayDirectly(false);
-    retryCountRef.current = 0;
+  // Plays one rendition for the rest of this stream; Auto hands control back to ABR within the cap
+  const handleQualityChange = useCallback((value: string) => {
+    if (!playerRef.current) return;
+
+    if (value === 'auto') {
+      const { maxQuality } = playbackPreferencesService.getSnapshot();
+      if (maxQuality) {
+        capQualityLevels(playerRef.current, maxQuality);
+      } else {
+        setQualityLevel(playerRef.current, 'auto');
+      }
+      setPinnedQuality(null);
+      return;
+    }
+
+    const index = parseInt(value, 10);
+    setQualityLevel(playerRef.current, index);
+    setPinnedQuality(index);
   }, []);
 
-  const switchToNextSource = useCallback(() => {
-    if (currentSource < videoSources.length - 1) {
-      setCurrentSource(prev => prev + 1);
+  // Caps what ABR may pick, here and in later sessions; Auto removes the cap.
+  // Changing the cap also releases a rendition picked by hand.
+  const handleMaxQualityChange = useCallback((value: string) => {
+    if (!playerRef.current) return;
+
+    const height = value === 'auto' ? null : parseInt(value, 10);
+    if (height) {
+      capQualityLevels(playerRef.current, height);
     } else {
-      setHasError(true);
-      setErrorMessage('All sources have been tried.');
+      setQualityLevel(playerRef.current, 'auto');
     }
-  }, [currentSource, videoSources.length]);
+    setPinnedQuality(null);
+    playbackPreferencesService.update({ maxQuality: height });
+  }, []);
+
+  // Captions button: off, or back on in the preferred language when there is one
+  const toggleSubtitles = useCallback(() => {
+    const { tracks, currentTrack, selectTrack } = subtitles;
+    if (currentTrack !== SUBTITLES_OFF) {
+      selectTrack(SUBTITLES_OFF);
+      return;
+    }
+
+    const track = tracks.find(candidate => matchesLanguage(candidate.language, preferredSubtitleLanguage)) || tracks[0];
+    if (track) selectTrack(track.id);
+  }, [subtitles, preferredSubtitleLanguage]);
+
+  const seekBy = useCallback((seconds: number) => {
+    if (!canPlayDirectly || !videoRef.current) return;
+    const video = videoRef.current;
+    video.currentTime = Math.max(0, Math.min(duration, video.currentTime + seconds));
+  }, [canPlayDirectly, duration]);
+
+  // Number keys jump to 0%, 10% ... 90% of the movie
+  const seekToPercent = useCallback((percent: number) => {
+    if (!canPlayDirectly || !videoRef.current || !duration) return;
+    videoRef.current.currentTime = (duration * percent) / 100;
+  }, [canPlayDirectly, duration]);
+
+  const stepPlaybackRate = useCallback((direction: 1 | -1) => {
+    const current = PLAYBACK_RATES.indexOf(playbackRate);
+    const index = (current === -1 ? PLAYBACK_RATES.indexOf(1) : current) + direction;
+    const next = PLAYBACK_RATES[Math.max(0, Math.min(PLAYBACK_RATES.length - 1, index))];
+    handlePlaybackRateChange(next.toString());
+  }, [playbackRate, handlePlaybackRateChange]);
+
+  const seekTo = useCallback((time: number) => {
+    handleProgressChange([time]);
+  }, [handleProgressChange]);
+
+  const skipIntro = useCallback(() => {
+    if (currentChapter?.type !== 'intro') return;
+    seekTo(Math.min(currentChapter.end, duration));
+  }, [currentChapter, duration, seekTo]);
+
+  // Media keys, lock screens and browser media hubs
+  useMediaSession(canPlayDirectly ? videoRef.current : null, movieTitle, movie, {
+    togglePlay,
+    skipForward,
+    skipBackward,
+    seekTo,
+  });
+
+  const collectDiagnostics = useCallback(() => {
+    const video = videoRef.current;
+    const player = playerRef.current;
+    const source = videoSources[currentSource];
+    if (!canPlayDirectly || !video || !player || !source) return null;
+
+    return collectPlaybackDiagnostics({
+      video,
+      sourceName: source.name,
+      url: resolvedUrlRef.current,
+      mimeType: source.mimeType,
+      currentBitrate: getActiveBitrate(player),
+      estimatedBandwidth: getBandwidthEstimate(player),
+      rebufferCount: rebufferCountRef.current,
+      timeToFirstFrameMs: timeToFirstFrameRef.current,
+    });
+  }, [canPlayDirectly, videoSources, currentSource]);
+
+  // Wraps a shortcut so the controls appear to show what it did
+  const withControls = useCallback((action: () => void) => () => {
+    action();
+    showControlsTemporarily();
+  }, [showControlsTemporarily]);
+
+  useShortcuts({
+    id: 'player',
+    title: 'Player',
+    exclusive: true,
+    shortcuts: [
+      { keys: ['Space', 'k'], description: 'Play / pause', handler: withControls(togglePlay) },
+      { keys: ['j'], description: `Back ${SKIP_DURATION} seconds`, handler: withControls(skipBackward) },
+      { keys: ['l'], description: `Forward ${SKIP_DURATION} seconds`, handler: withControls(skipForward) },
+      { keys: ['ArrowLeft'], description: `Back ${ARROW_SEEK_DURATION} seconds`, handler: withControls(() => seekBy(-ARROW_SEEK_DURATION)) },
+      { keys: ['ArrowRight'], description: `Forward ${ARROW_SEEK_DURATION} seconds`, handler: withControls(() => seekBy(ARROW_SEEK_DURATION)) },
+      { keys: ['ArrowUp'], description: 'Volume up', handler: withControls(() => adjustVolume(VOLUME_STEP)) },
+      { keys: ['ArrowDown'], description: 'Volume down', handler: withControls(() => adjustVolume(-VOLUME_STEP)) },
+      { keys: ['m'], description: 'Mute / unmute', handler: withControls(toggleMute) },
+      { keys: ['f'], description: 'Fullscreen', handler: toggleFullscreen },
+      { keys: ['i'], description: 'Mini-player', handler: minimizePlayer },
+      { keys: ['p'], description: 'Picture-in-picture', handler: togglePictureInPicture },
+      { keys: ['c'], description: 'Subtitles on / off', handler: withControls(toggleSubtitles) },
+      { keys: ['s'], description: 'Skip intro', handler: skipIntro },
+      { keys: ['d'], description: 'Stats for nerds', handler: () => setShowDiagnostics(show => !show) },
+      { keys: ['<'], description: 'Slower', handler: withControls(() => stepPlaybackRate(-1)) },
+      { keys: ['>'], description: 'Faster', handler: withControls(() => stepPlaybackRate(1)) },
+      {
+        keys: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+        label: '0–9',
+        description: 'Jump to 0–90%',
+        handler: (event) => {
+          seekToPercent(parseInt(event.key, 10) * 10);
+          showControlsTemporarily();
+        },
+      },
+      {
+        keys: ['Escape'],
+        description: 'Close settings / player',
+        allowInInput: true,
+        handler: () => {
+          if (showSettings) {
+            setShowSettings(false);
+          } else {
+            onClose();
+          }
+        },
+      },
+    ],
+  }, isOpen && !minimized);
+
+  const handleResume = useCallback((startOver: boolean) => {
+    const video = videoRef.current;
+    if (video && resumePosition !== null) {
+      video.currentTime = startOver ? 0 : resumePosition;
+      video.play().catch(console.error);
+    }
+    setResumePosition(null);
+  }, [resumePosition]);
+
+  const resetPlayer = useCallback(() => {
+    dispatch({ type: 'RETRY' });
+  }, []);
+
+  const switchToNextSource = useCallback(() => {
+    dispatch({ type: 'NEXT_SOURCE' });
+  }, []);
 
   if (!isOpen) return null;
 
+  const activeQualityLabel = qualityLevels.find(level => level.index === activeQuality)?.label;
+  // Caps on offer: each rendition height, plus a saved cap this stream doesn't have
+  const maxQualityOptions = Array.from(new Set([
+    ...qualityLevels.map(level => level.height).filter(Boolean),
+    ...(maxQuality ? [maxQuality] : []),
+  ])).sort((a, b) => b - a);
+
   return (
     <div 
       ref={containerRef}
-      className="fixed inset-0 z-[100] bg-black flex items-center justify-center"
+      className={minimized
+        ? 'group fixed bottom-4 right-4 z-[90] w-80 max-w-[calc(100vw-2rem)] aspect-video rounded-lg overflow-hidden shadow-2xl bg-black flex items-center justify-center'
+        : 'fixed inset-0 z-[100] bg-black flex items-center justify-center'}
       onClick={showControlsTemporarily}
     >
-      {/* Close Button */}
-      <EnhancedButton
-        variant="ghost"
-        size="icon"
-        className={`absolute top-4 right-4 z-20 bg-black/50 hover:bg-black/70 text-white transition-all duration-300 ${showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
-        onClick={onClose}
-      >
-        <X className="w-6 h-6" />
-      </EnhancedButton>
+      {/* Minimize and Close Buttons */}
+      {!minimized && (
+        <div className={`absolute top-4 right-4 z-20 flex gap-2 transition-all duration-300 ${showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+          {canMinimize && (
+            <EnhancedButton
+              variant="ghost"
+              size="icon"
+              className="bg-black/50 hover:bg-black/70 text-white"
+              onClick={minimizePlayer}
+              title="Mini-player"
+            >
+              <Minimize2 className="w-6 h-6" />
+            </EnhancedButton>
+          )}
+          <EnhancedButton
+            variant="ghost"
+            size="icon"
+            className="bg-black/50 hover:bg-black/70 text-white"
+            onClick={onClose}
+          >
+            <X className="w-6 h-6" />
+          </EnhancedButton>
+        </div>
+      )}
 
       {/* Loading Spinner */}
       {isLoading && (
         <div className="absolute inset-0 flex flex-col items-center justify-center z-10 bg-black/50">
-          <Loader2 className="w-12 h-12 text-white animate-spin mb-4" />
-          <p className="text-white text-center">
-            {errorMessage || `Loading ${videoSources[currentSource]?.name || 'video'}...`}
-          </p>
-          <p className="text-gray-400 text-sm mt-2">
-            Source {currentSource + 1} of {videoSources.length}
-          </p>
-          {currentSource > 0 && (
+          <Loader2 className={minimized ? 'w-8 h-8 text-white animate-spin' : 'w-12 h-12 text-white animate-spin mb-4'} />
+          {!minimized && (
+            <p className="text-white text-center">
+              {errorMessage || (resolvingSources ? 'Finding sources...' : `Loading ${videoSources[currentSource]?.name || 'video'}...`)}
+            </p>
+          )}
+          {!minimized && videoSources.length > 0 && (
+            <p className="text-gray-400 text-sm mt-2">
+              Source {currentSource + 1} of {videoSources.length}
+            </p>
+          )}
+          {!minimized && currentSource > 0 && (
             <p className="text-gray-400 text-sm mt-1">
               Previous sources failed, trying alternatives...
             </p>
@@ -457,7 +762,12 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
 
       {/* Video Player */}
       <div className="w-full h-full relative">
-        {hasError ? (
+        {hasError && minimized ? (
+          <div className="flex flex-col items-center justify-center gap-2 h-full text-white text-sm">
+            <AlertCircle className="w-8 h-8 text-red-500" />
+            Video Unavailable
+          </div>
+        ) : hasError ? (
           <div className="flex items-center justify-center h-full">
             <div className="text-center text-white p-8">
               <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
@@ -480,7 +790,7 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
               </div>
             </div>
           </div>
-        ) : useIframe ? (
+        ) : useIframe && (
           <iframe
             ref={iframeRef}
             src={videoSources[currentSource]?.url}
@@ -488,20 +798,22 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
             allowFullScreen
             frameBorder="0"
             title={movieTitle}
-            onLoad={() => setIsLoading(false)}
-          />
-        ) : (
-          <video
-            ref={videoRef}
-            className="w-full h-full object-contain"
-            controls={false}
-            autoPlay
-            onClick={togglePlay}
           />
         )}
 
+        {/* Streaming engine; video.js owns everything inside this element */}
+        <div
+          ref={playerContainerRef}
+          className={`w-full h-full [&_.video-js]:w-full [&_.video-js]:h-full [&_video]:w-full [&_video]:h-full [&_video]:object-contain ${hasError || useIframe ? 'hidden' : ''}`}
+          onClick={togglePlay}
+        />
+
+        {canPlayDirectly && !minimized && (
+          <SubtitleOverlay cues={subtitles.cues} raised={showControls} />
+        )}
+
         {/* Enhanced Video Controls for Direct Playback */}
-        {canPlayDirectly && (
+        {canPlayDirectly && !minimized && (
           <div className={`absolute inset-0 pointer-events-none transition-opacity duration-300 ${showControls ? 'opacity-100' : 'opacity-0'}`}>
             {/* Progress Bar */}
             <div className="absolute bottom-20 left-4 right-4 pointer-events-auto">
@@ -510,12 +822,13 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
                   {formatTime(progress)}
                 </span>
                 
-                <Slider
-                  value={[progress]}
-                  max={duration}
-                  step={1}
-                  onValueChange={handleProgressChange}
-                  className="flex-1"
+                <SeekBar
+                  progress={progress}
+                  duration={duration}
+                  onSeek={handleProgressChange}
+                  formatTime={formatTime}
+                  thumbnails={thumbnails}
+                  chapters={chapters}
                 />
                 
                 <span className="text-white text-sm min-w-[3rem]">
@@ -595,6 +908,19 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
                     </span>
                   )}
 
+                  {/* Subtitles Button */}
+                  {subtitles.tracks.length > 0 && (
+                    <EnhancedButton
+                      variant="ghost"
+                      size="icon"
+                      className={`text-white hover:bg-white/20 transition-colors ${subtitles.currentTrack !== SUBTITLES_OFF ? 'bg-white/20' : ''}`}
+                      onClick={toggleSubtitles}
+                      title="Subtitles"
+                    >
+                      <Languages className="w-5 h-5" />
+                    </EnhancedButton>
+                  )}
+
                   {/* Settings Button */}
                   <EnhancedButton
                     variant="ghost"
@@ -616,6 +942,19 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
                     <RotateCcw className="w-5 h-5" />
                   </EnhancedButton>
                   
+                  {/* Picture-in-Picture Button */}
+                  {document.pictureInPictureEnabled && (
+                    <EnhancedButton
+                      variant="ghost"
+                      size="icon"
+                      className={`text-white hover:bg-white/20 transition-colors ${isPictureInPicture ? 'bg-white/20' : ''}`}
+                      onClick={togglePictureInPicture}
+                      title="Picture-in-picture"
+                    >
+                      <PictureInPicture2 className="w-5 h-5" />
+                    </EnhancedButton>
+                  )}
+
                   {/* Fullscreen Button */}
                   <EnhancedButton
                     variant="ghost"
@@ -632,10 +971,55 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
         )}
 
         {/* Enhanced Settings Panel */}
-        {showSettings && canPlayDirectly && (
-          <div className="absolute top-20 right-4 w-80 bg-black/90 backdrop-blur-sm rounded-lg border border-white/20 p-4 z-30">
+        {showSettings && canPlayDirectly && !minimized && (
+          <div className="absolute top-20 right-4 w-80 max-h-[calc(100%-12rem)] overflow-y-auto bg-black/90 backdrop-blur-sm rounded-lg border border-white/20 p-4 z-30">
             <h3 className="text-white font-semibold mb-4">Video Settings</h3>
             
+            {/* Quality */}
+            {qualityLevels.length > 0 && (
+              <div className="mb-4">
+                <label className="text-white text-sm font-medium mb-2 block">Quality</label>
+                <Select value={pinnedQuality !== null ? pinnedQuality.toString() : 'auto'} onValueChange={handleQualityChange}>
+                  <SelectTrigger className="bg-white/10 border-white/20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">
+                      Auto{pinnedQuality === null && activeQualityLabel ? ` (${activeQualityLabel})` : ''}
+                    </SelectItem>
+                    {qualityLevels.map((level) => (
+                      <SelectItem key={level.index} value={level.index.toString()}>
+                        {level.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {/* Quality cap */}
+            {qualityLevels.length > 0 && (
+              <div className="mb-4">
+                <label className="text-white text-sm font-medium mb-2 block">Max quality</label>
+                <Select value={maxQuality ? maxQuality.toString() : 'auto'} onValueChange={handleMaxQualityChange}>
+                  <SelectTrigger className="bg-white/10 border-white/20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">
+                      No limit
+                    </SelectItem>
+                    {maxQualityOptions.map((height) => (
+                      <SelectItem key={height} value={height.toString()}>
+                        Up to {height}p
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="mt-1 text-xs text-gray-400">Remembered for future videos</p>
+              </div>
+            )}
+
             {/* Playback Speed */}
             <div className="mb-4">
               <label className="text-white text-sm font-medium mb-2 block">Playback Speed</label>
@@ -644,16 +1028,68 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="0.5">0.5x</SelectItem>
-                  <SelectItem value="0.75">0.75x</SelectItem>
-                  <SelectItem value="1">Normal</SelectItem>
-                  <SelectItem value="1.25">1.25x</SelectItem>
-                  <SelectItem value="1.5">1.5x</SelectItem>
-                  <SelectItem value="2">2x</SelectItem>
+                  {PLAYBACK_RATES.map((rate) => (
+                    <SelectItem key={rate} value={rate.toString()}>
+                      {rate === 1 ? 'Normal' : `${rate}x`}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
+            {/* Autoplay */}
+            <label className="mb-4 flex items-center justify-between gap-4 text-white text-sm font-medium">
+              Autoplay next movie
+              <Switch
+                checked={autoplayNext}
+                onCheckedChange={(checked) => playbackPreferencesService.update({ autoplayNext: checked })}
+              />
+            </label>
+
+            {/* Audio */}
+            <div className="mb-4 pt-4 border-t border-white/10">
+              <AudioSettings
+                tracks={audioTracks.tracks}
+                currentTrack={audioTracks.currentTrack}
+                onSelectTrack={audioTracks.selectTrack}
+                enhancementAvailable={audioEnhancementAvailable}
+              />
+            </div>
+
+            {/* Chapters */}
+            {chapters && chapters.length > 0 && (
+              <div className="mb-4 pt-4 border-t border-white/10">
+                <ChapterList
+                  chapters={chapters}
+                  current={currentChapter}
+                  onSelect={(chapter) => seekTo(chapter.start)}
+                  formatTime={formatTime}
+                />
+              </div>
+            )}
+
+            {/* Subtitles */}
+            <div className="mb-4 pt-4 border-t border-white/10">
+              <SubtitleSettings
+                tracks={subtitles.tracks}
+                currentTrack={subtitles.currentTrack}
+                onSelectTrack={subtitles.selectTrack}
+                onLoadFile={(file) => subtitles.loadSubtitleFile(file).catch(console.error)}
+                offset={subtitles.offset}
+                onOffsetChange={subtitles.setOffset}
+              />
+            </div>
+
+            {/* Diagnostics */}
+            <EnhancedButton
+              variant="ghost"
+              onClick={() => setShowDiagnostics(!showDiagnostics)}
+              className={`w-full justify-start text-white hover:bg-white/20 ${showDiagnostics ? 'bg-white/20' : ''}`}
+            >
+              <Activity className="w-4 h-4" />
+              Stats for nerds
+            </EnhancedButton>
+
             {/* Close Settings */}
             <EnhancedButton
               variant="ghost"
@@ -665,8 +1101,55 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
           </div>
         )}
 
+        {/* Stats for Nerds */}
+        {showDiagnostics && !minimized && (
+          <DiagnosticsOverlay collect={collectDiagnostics} onClose={() => setShowDiagnostics(false)} />
+        )}
+
+        {/* Skip Intro; shown whether or not the controls are */}
+        {canPlayDirectly && inIntro && !minimized && resumePosition === null && (
+          <EnhancedButton
+            variant="glass"
+            className="absolute bottom-40 right-4 z-30 pointer-events-auto"
+            onClick={skipIntro}
+          >
+            <SkipForward className="w-4 h-4" />
+            Skip Intro
+          </EnhancedButton>
+        )}
+
+        {/* Up Next */}
+        {canPlayDirectly && inCredits && nextMovie && onPlayNext && !upNextDismissed && !minimized && (
+          <UpNextCard
+            key={nextMovie.id}
+            movie={nextMovie}
+            autoplay={autoplayNext && isPlaying}
+            onPlay={onPlayNext}
+            onDismiss={() => setUpNextDismissed(true)}
+          />
+        )}
+
+        {/* Resume Prompt */}
+        {canPlayDirectly && resumePosition !== null && !minimized && (
+          <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/60 pointer-events-auto">
+            <div className="text-center text-white space-y-4">
+              <p className="text-lg font-medium">Welcome back to {movieTitle}</p>
+              <div className="flex gap-4 justify-center">
+                <EnhancedButton variant="play" onClick={() => handleResume(false)}>
+                  <Play className="w-4 h-4" />
+                  Resume from {formatTime(resumePosition)}
+                </EnhancedButton>
+                <EnhancedButton variant="glass" onClick={() => handleResume(true)}>
+                  <RotateCcw className="w-4 h-4" />
+                  Start over
+                </EnhancedButton>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Click to Play Overlay for Direct Video */}
-        {canPlayDirectly && !isPlaying && !showControls && (
+        {canPlayDirectly && !isPlaying && !showControls && !minimized && (
           <div className="absolute inset-0 flex items-center justify-center pointer-events-auto">
             <div className="bg-black/50 rounded-full p-8 transition-all duration-300 hover:bg-black/70">
               <Play className="w-16 h-16 text-white" />
@@ -674,25 +1157,15 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
           </div>
         )}
 
-        {/* Source Info for iFrame */}
-        {useIframe && (
-          <div className="absolute bottom-4 right-4 flex items-center space-x-2 bg-black/70 rounded-full px-3 py-2 backdrop-blur-sm">
-            <EnhancedButton
-              variant="ghost"
-              size="icon"
-              className="text-white hover:bg-white/20 transition-colors"
-              onClick={() => setIsPlaying(!isPlaying)}
-            >
-              <Pause className="w-4 h-4" />
-            </EnhancedButton>
-            <div className="w-16 h-1 bg-white/30 rounded-full overflow-hidden">
-              <div className="h-full bg-white/70 w-1/3"></div>
-            </div>
+        {/* Source Info for iFrame; embedded players can't be controlled from here */}
+        {useIframe && !minimized && (
+          <div className={`absolute bottom-4 right-4 bg-black/70 rounded-full px-3 py-2 backdrop-blur-sm text-white text-sm transition-all duration-300 ${showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+            {videoSources[currentSource]?.name}
           </div>
         )}
 
         {/* Source Switch Button */}
-        {!isLoading && !hasError && currentSource < videoSources.length - 1 && (
+        {!isLoading && !hasError && !minimized && currentSource < videoSources.length - 1 && (
           <EnhancedButton
             variant="ghost"
             className={`absolute bottom-4 left-4 bg-black/70 hover:bg-black/90 text-white text-sm transition-all duration-300 ${showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
@@ -703,6 +1176,53 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
         )}
       </div>
 
+      {/* Mini-player Controls; clicks between them reach the video */}
+      {minimized && (
+        <div className="absolute inset-0 z-20 flex flex-col justify-between bg-gradient-to-b from-black/70 via-transparent to-black/70 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity duration-300 pointer-events-none">
+          <div className="flex items-center gap-1 p-1 pointer-events-auto">
+            <p className="flex-1 truncate px-2 text-white text-sm font-medium">{movieTitle}</p>
+            <EnhancedButton
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-white hover:bg-white/20"
+              onClick={onExpand}
+              title="Expand"
+            >
+              <Maximize2 className="w-4 h-4" />
+            </EnhancedButton>
+            <EnhancedButton
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-white hover:bg-white/20"
+              onClick={onClose}
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </EnhancedButton>
+          </div>
+
+          {canPlayDirectly && (
+            <div className="flex items-center gap-2 px-2 pb-2 pointer-events-auto">
+              <EnhancedButton
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0 text-white hover:bg-white/20"
+                onClick={togglePlay}
+              >
+                {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </EnhancedButton>
+              <Slider
+                value={[progress]}
+                max={duration}
+                step={1}
+                onValueChange={handleProgressChange}
+                className="flex-1"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Buffering Indicator */}
       {isBuffering && !isLoading && canPlayDirectly && (
         <div className="absolute inset-0 flex items-center justify-center z-10 pointer-events-none">
@@ -713,7 +1233,7 @@ export function VideoPlayer({ movieId, movieTitle, isOpen, onClose }: VideoPlaye
       )}
 
       {/* Alternative Source Loading */}
-      {isLoading && currentSource > 0 && (
+      {isLoading && currentSource > 0 && !minimized && (
         <div className="absolute bottom-20 left-1/2 transform -translate-x-1/2 bg-black/70 rounded-lg px-4 py-2 z-20">
           <div className="flex items-center space-x-2 text-white">
             <Loader2 className="w-4 h-4 animate-spin" />
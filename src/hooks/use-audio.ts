@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AudioTrackOption, StreamingPlayer, getAudioTracks, onAudioTracksChange, setAudioTrack } from '@/lib/streaming';
+import { matchesLanguage } from '@/lib/subtitles';
+import {
+  applyAudioEnhancement,
+  canEnhanceAudio,
+  resumeAudioEnhancement,
+} from '@/lib/audio-enhancement';
+import { playbackPreferencesService } from '@/services/playback-preferences';
+import { usePlaybackPreferences } from '@/hooks/use-playback-preferences';
+
+// Tracks that shouldn't be switched to just because their language matches
+const SECONDARY_AUDIO_KINDS = ['commentary', 'descriptions', 'main-desc'];
+
+export function useAudioPreferences() {
+  return usePlaybackPreferences().audio;
+}
+
+/**
+ * Audio renditions of the current stream. Follows the saved language until
+ * the viewer picks a track, and remembers their pick for next time.
+ */
+export function useAudioTracks(player: StreamingPlayer | null) {
+  const { language: preferredLanguage } = useAudioPreferences();
+  const [tracks, setTracks] = useState<AudioTrackOption[]>([]);
+  const userChoseRef = useRef(false);
+
+  useEffect(() => {
+    userChoseRef.current = false;
+    if (!player) {
+      setTracks([]);
+      return;
+    }
+
+    const update = () => setTracks(getAudioTracks(player));
+    update();
+    return onAudioTracksChange(player, update);
+  }, [player]);
+
+  useEffect(() => {
+    if (!player || userChoseRef.current || !preferredLanguage) return;
+
+    const current = tracks.find(track => track.enabled);
+    if (current && matchesLanguage(current.language, preferredLanguage)) return;
+
+    const match = tracks.find(track => matchesLanguage(track.language, preferredLanguage) && !SECONDARY_AUDIO_KINDS.includes(track.kind));
+    if (match) setAudioTrack(player, match.id);
+  }, [player, tracks, preferredLanguage]);
+
+  const selectTrack = useCallback((id: string) => {
+    if (!player) return;
+    userChoseRef.current = true;
+    setAudioTrack(player, id);
+
+    const track = tracks.find(candidate => candidate.id === id);
+    if (track?.language) {
+      playbackPreferencesService.updateAudio({ language: track.language });
+    }
+  }, [player, tracks]);
+
+  return {
+    tracks,
+    currentTrack: tracks.find(track => track.enabled)?.id ?? '',
+    selectTrack,
+  };
+}
+
+/**
+ * Applies the saved night mode and dialogue boost to the media element.
+ * Returns false when the source can't be processed (cross-origin without CORS).
+ */
+export function useAudioEnhancement(element: HTMLMediaElement | null) {
+  const { nightMode, dialogueBoost } = useAudioPreferences();
+  const available = !!element && canEnhanceAudio(element);
+
+  useEffect(() => {
+    if (!element || !available) return;
+    applyAudioEnhancement(element, { nightMode, dialogueBoost });
+  }, [element, available, nightMode, dialogueBoost]);
+
+  useEffect(() => {
+    if (!element) return;
+
+    const resume = () => resumeAudioEnhancement(element);
+    element.addEventListener('play', resume);
+    return () => {
+      element.removeEventListener('play', resume);
+    };
+  }, [element]);
+
+  return available;
+}
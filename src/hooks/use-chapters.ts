@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { loadChapters } from '@/lib/chapters';
+
+export const chapterKeys = {
+  all: ['chapters'] as const,
+  track: (url: string) => [...chapterKeys.all, url] as const,
+};
+
+/**
+ * Chapters and intro/credits segments for a source, from its chapters file.
+ * Sources without one, or whose file fails to load, have no chapters.
+ */
+export function useChapters(url: string | undefined) {
+  const { data } = useQuery({
+    queryKey: chapterKeys.track(url ?? ''),
+    queryFn: ({ signal }) => loadChapters(url as string, signal),
+    enabled: !!url,
+    staleTime: Infinity,
+    retry: false,
+    meta: { silent: true },
+  });
+
+  return data;
+}
@@ -0,0 +1,67 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { validateId, validateYear, validateSortBy } from '@/lib/security';
+
+export interface MovieFilters {
+  genre: string;
+  year: string;
+  sort: string;
+  adult: string;
+  language: string;
+}
+
+export const DEFAULT_FILTERS: MovieFilters = {
+  genre: 'all',
+  year: 'all',
+  sort: 'popularity.desc',
+  adult: 'false',
+  language: 'all',
+};
+
+const ADULT_OPTIONS = ['all', 'true', 'false'];
+
+/**
+ * Reads filters from the query string. Anything that fails validation falls
+ * back to its default, so a hand-edited URL cannot smuggle params to TMDB.
+ */
+export function parseFilters(params: URLSearchParams): MovieFilters {
+  const adult = params.get('adult');
+  const language = params.get('language');
+
+  return {
+    genre: validateId(params.get('genre'))?.toString() ?? DEFAULT_FILTERS.genre,
+    year: validateYear(params.get('year')) ?? DEFAULT_FILTERS.year,
+    sort: validateSortBy(params.get('sort')) ?? DEFAULT_FILTERS.sort,
+    adult: adult && ADULT_OPTIONS.includes(adult) ? adult : DEFAULT_FILTERS.adult,
+    language: language && /^[a-z]{2}$/.test(language) ? language : DEFAULT_FILTERS.language,
+  };
+}
+
+/**
+ * Writes filters into a copy of the query string, leaving defaults out to keep URLs short
+ */
+export function serializeFilters(filters: MovieFilters, base?: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams(base);
+
+  (Object.keys(DEFAULT_FILTERS) as (keyof MovieFilters)[]).forEach((key) => {
+    if (filters[key] === DEFAULT_FILTERS[key]) {
+      params.delete(key);
+    } else {
+      params.set(key, filters[key]);
+    }
+  });
+
+  return params;
+}
+
+export function useFilterParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+
+  // Each change pushes a history entry so back/forward step through filters
+  const setFilter = useCallback((key: keyof MovieFilters, value: string) => {
+    setSearchParams(prev => serializeFilters({ ...parseFilters(prev), [key]: value }, prev));
+  }, [setSearchParams]);
+
+  return { filters, setFilter };
+}
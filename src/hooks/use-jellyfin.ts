@@ -0,0 +1,32 @@
+import { useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { jellyfinService } from '@/services/jellyfin';
+
+export const jellyfinKeys = {
+  all: ['jellyfin'] as const,
+  library: (userId: string) => [...jellyfinKeys.all, 'library', userId] as const,
+};
+
+export function useJellyfinConnection() {
+  return useSyncExternalStore(jellyfinService.subscribe, jellyfinService.getSnapshot);
+}
+
+/**
+ * TMDB ids in the signed-in user's Jellyfin library; empty when not connected
+ */
+export function useJellyfinLibrary() {
+  const connection = useJellyfinConnection();
+
+  return useQuery({
+    queryKey: jellyfinKeys.library(connection?.userId ?? ''),
+    queryFn: () => jellyfinService.getLibraryIndex(),
+    enabled: !!connection,
+    // Only drives "in library" badges, so an unreachable server isn't worth a toast
+    meta: { silent: true },
+  });
+}
+
+export function useInLibrary(tmdbId: number): boolean {
+  const { data } = useJellyfinLibrary();
+  return !!data?.has(tmdbId);
+}
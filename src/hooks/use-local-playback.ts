@@ -0,0 +1,39 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { localPlaybackService } from '@/services/local-playback';
+import { useMovieNavigation } from '@/hooks/use-movie-navigation';
+import { toast } from '@/hooks/use-toast';
+
+export function useLocalMediaSession() {
+  return useSyncExternalStore(localPlaybackService.subscribe, localPlaybackService.getSnapshot);
+}
+
+/**
+ * Opens dropped or picked files in the player
+ */
+export function useOpenLocalMedia() {
+  const { playLocalFile } = useMovieNavigation();
+
+  return useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+
+    try {
+      const opened = await localPlaybackService.open(files);
+      if (!opened) {
+        toast({
+          title: "No video found",
+          description: "Drop or pick a video file, optionally with .srt or .vtt subtitles.",
+          variant: "destructive",
+        });
+        return;
+      }
+      playLocalFile();
+    } catch (error) {
+      console.error('Error opening local file:', error);
+      toast({
+        title: "Couldn't open file",
+        description: "The file could not be read.",
+        variant: "destructive",
+      });
+    }
+  }, [playLocalFile]);
+}
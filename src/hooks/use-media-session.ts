@@ -0,0 +1,122 @@
+import { useEffect } from 'react';
+import { Movie, tmdbService } from '@/services/tmdb';
+
+interface MediaSessionControls {
+  togglePlay: () => void;
+  skipForward: () => void;
+  skipBackward: () => void;
+  seekTo: (time: number) => void;
+}
+
+// TMDB poster sizes and their pixel dimensions (posters are 2:3)
+const POSTER_SIZES = [
+  ['w92', '92x138'],
+  ['w154', '154x231'],
+  ['w185', '185x278'],
+  ['w342', '342x513'],
+  ['w500', '500x750'],
+  ['w780', '780x1170'],
+];
+
+function getArtwork(movie: Movie | null | undefined): MediaImage[] {
+  if (!movie?.poster_path) return [];
+  return POSTER_SIZES.map(([size, sizes]) => ({
+    src: tmdbService.getImageUrl(movie.poster_path, size),
+    sizes,
+    type: 'image/jpeg',
+  }));
+}
+
+function setActionHandler(action: MediaSessionAction, handler: MediaSessionActionHandler | null): void {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch {
+    // Browsers throw for actions they don't support
+  }
+}
+
+/**
+ * Publishes the playing title to the OS through the Media Session API, so
+ * media keys, lock screens and browser media hubs can control the player.
+ * `video` is null while nothing is playing directly.
+ */
+export function useMediaSession(
+  video: HTMLVideoElement | null,
+  title: string,
+  movie: Movie | null | undefined,
+  controls: MediaSessionControls
+) {
+  const { togglePlay, skipForward, skipBackward, seekTo } = controls;
+  const supported = typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+  useEffect(() => {
+    if (!supported || !video) return;
+
+    navigator.mediaSession.metadata = new MediaMetadata({ title, artwork: getArtwork(movie) });
+
+    return () => {
+      navigator.mediaSession.metadata = null;
+    };
+  }, [supported, video, title, movie]);
+
+  useEffect(() => {
+    if (!supported || !video) return;
+
+    setActionHandler('play', () => {
+      if (video.paused) togglePlay();
+    });
+    setActionHandler('pause', () => {
+      if (!video.paused) togglePlay();
+    });
+    setActionHandler('seekbackward', () => skipBackward());
+    setActionHandler('seekforward', () => skipForward());
+    setActionHandler('seekto', (details) => {
+      if (details.seekTime !== undefined) seekTo(details.seekTime);
+    });
+
+    return () => {
+      (['play', 'pause', 'seekbackward', 'seekforward', 'seekto'] as MediaSessionAction[])
+        .forEach(action => setActionHandler(action, null));
+    };
+  }, [supported, video, togglePlay, skipForward, skipBackward, seekTo]);
+
+  // Playback state and position, so the OS can draw its own progress bar
+  useEffect(() => {
+    if (!supported || !video) return;
+
+    const updatePlaybackState = () => {
+      navigator.mediaSession.playbackState = video.paused ? 'paused' : 'playing';
+    };
+    const updatePosition = () => {
+      // Live streams have no finite duration to report
+      if (!isFinite(video.duration) || video.duration <= 0) return;
+      try {
+        navigator.mediaSession.setPositionState({
+          duration: video.duration,
+          playbackRate: video.playbackRate,
+          position: Math.min(video.currentTime, video.duration),
+        });
+      } catch (error) {
+        console.error('Error updating media session position:', error);
+      }
+    };
+    const handlePlayState = () => {
+      updatePlaybackState();
+      updatePosition();
+    };
+
+    const events = ['play', 'pause', 'seeked', 'ratechange', 'durationchange', 'loadedmetadata'];
+    events.forEach(event => video.addEventListener(event, handlePlayState));
+    handlePlayState();
+
+    return () => {
+      events.forEach(event => video.removeEventListener(event, handlePlayState));
+      navigator.mediaSession.playbackState = 'none';
+      try {
+        navigator.mediaSession.setPositionState();
+      } catch {
+        // Older implementations require a state argument
+      }
+    };
+  }, [supported, video]);
+}
@@ -0,0 +1,89 @@
+import { useCallback } from 'react';
+import { Location, matchPath, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { Movie } from '@/services/tmdb';
+import { validateId } from '@/lib/security';
+import { useMovieDetails } from '@/hooks/use-tmdb';
+
+/**
+ * Router state carried by the movie overlay routes (/movie/:id, /watch/:id)
+ */
+export interface MovieRouteState {
+  // Page rendered underneath the overlay when it was opened in-app
+  backgroundLocation?: Location;
+  // Movie already on screen, so the overlay doesn't have to refetch it
+  movie?: Movie;
+}
+
+export const OVERLAY_ROUTES = ['/movie/:id', '/watch/:id'];
+
+function isOverlayPath(pathname: string): boolean {
+  return OVERLAY_ROUTES.some(pattern => matchPath(pattern, pathname));
+}
+
+/**
+ * Resolves which page should render behind the current location. Overlays
+ * opened from a shared link have no background, so they sit on the home page.
+ */
+export function getBackgroundLocation(location: Location): Location | string {
+  const state = location.state as MovieRouteState | null;
+  if (state?.backgroundLocation) {
+    return state.backgroundLocation;
+  }
+  return isOverlayPath(location.pathname) ? '/' : location;
+}
+
+export function useMovieNavigation() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const state = location.state as MovieRouteState | null;
+  const background = getBackgroundLocation(location);
+  const backgroundLocation = typeof background === 'string' ? undefined : background;
+  const inOverlay = isOverlayPath(location.pathname);
+
+  const openMovie = useCallback((movie: Movie) => {
+    navigate(`/movie/${movie.id}`, { state: { backgroundLocation, movie } });
+  }, [navigate, backgroundLocation]);
+
+  // Opens a watch route; from the details modal it replaces the modal, so back returns to the page
+  const openPlayer = useCallback((path: string, movie?: Movie) => {
+    navigate(path, {
+      state: { backgroundLocation, movie },
+      replace: inOverlay && !!state?.backgroundLocation,
+    });
+  }, [navigate, backgroundLocation, inOverlay, state?.backgroundLocation]);
+
+  const playMovie = useCallback((movie: Movie) => {
+    openPlayer(`/watch/${movie.id}`, movie);
+  }, [openPlayer]);
+
+  // Plays the file opened in localPlaybackService
+  const playLocalFile = useCallback(() => {
+    openPlayer('/watch/local');
+  }, [openPlayer]);
+
+  const closeOverlay = useCallback(() => {
+    if (state?.backgroundLocation) {
+      navigate(-1);
+    } else {
+      navigate('/');
+    }
+  }, [navigate, state?.backgroundLocation]);
+
+  return { openMovie, openPlayer, playMovie, playLocalFile, closeOverlay };
+}
+
+/**
+ * Loads the movie named by the current route's :id param
+ */
+export function useRouteMovie() {
+  const { id } = useParams();
+  const location = useLocation();
+  const stateMovie = (location.state as MovieRouteState | null)?.movie;
+  const movieId = validateId(id);
+  const stateMatches = !!stateMovie && stateMovie.id === movieId;
+  // Movies handed over through router state are shown as-is; direct links fetch
+  const { data } = useMovieDetails(stateMatches ? null : movieId);
+  const movie: Movie | null = stateMatches ? stateMovie : data ?? null;
+
+  return { movieId, movie };
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { playbackPreferencesService } from '@/services/playback-preferences';
+
+export function usePlaybackPreferences() {
+  return useSyncExternalStore(playbackPreferencesService.subscribe, playbackPreferencesService.getSnapshot);
+}
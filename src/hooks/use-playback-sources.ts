@@ -0,0 +1,32 @@
+import { QueryClient, useQuery } from '@tanstack/react-query';
+import { playbackSourceRegistry } from '@/services/playback-sources';
+
+export const playbackSourceKeys = {
+  all: ['playback-sources'] as const,
+  title: (tmdbId: number) => [...playbackSourceKeys.all, tmdbId] as const,
+};
+
+/**
+ * Playable sources for a title from every registered provider
+ */
+export function usePlaybackSources(tmdbId: number | null) {
+  return useQuery({
+    queryKey: playbackSourceKeys.title(tmdbId ?? 0),
+    queryFn: ({ signal }) => playbackSourceRegistry.resolve(tmdbId as number, signal),
+    enabled: !!tmdbId,
+    // A refetch would restart playback, so keep the list for the whole session
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Marks resolved sources stale whenever providers are added, removed or
+ * reconfigured. Nothing is refetched in place, so a title that is already
+ * playing keeps its sources; the new list is resolved the next time a title
+ * is opened. Returns a function that stops following the registry.
+ */
+export function invalidatePlaybackSourcesOnChange(queryClient: QueryClient): () => void {
+  return playbackSourceRegistry.subscribe(() => {
+    queryClient.invalidateQueries({ queryKey: playbackSourceKeys.all, refetchType: 'none' });
+  });
+}
@@ -0,0 +1,27 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useLocation } from 'react-router-dom';
+import { PlayerSessionRequest, playerSessionService } from '@/services/player-session';
+
+export function usePlayerSession() {
+  return useSyncExternalStore(playerSessionService.subscribe, playerSessionService.getSnapshot);
+}
+
+/**
+ * Shows `request` in the player for as long as the calling watch route is
+ * mounted. Pass null while there is nothing to play.
+ */
+export function usePlayerRoute(request: Omit<PlayerSessionRequest, 'path'> | null) {
+  const { pathname } = useLocation();
+  const { movieId, movieTitle, movie, sources, onEnd } = request ?? {};
+  const hasRequest = !!request;
+
+  useEffect(() => {
+    if (!hasRequest) return;
+    playerSessionService.open({ path: pathname, movieId, movieTitle, movie, sources, onEnd });
+  }, [hasRequest, pathname, movieId, movieTitle, movie, sources, onEnd]);
+
+  // Leaving the route ends playback, unless the player was minimized on the way out
+  useEffect(() => {
+    return () => playerSessionService.leave(pathname);
+  }, [pathname]);
+}
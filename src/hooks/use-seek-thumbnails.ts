@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { loadThumbnailTrack } from '@/lib/thumbnails';
+
+export const thumbnailKeys = {
+  all: ['thumbnails'] as const,
+  track: (url: string) => [...thumbnailKeys.all, url] as const,
+};
+
+/**
+ * Seek-bar preview cues for a source's thumbnail track. Sources without one,
+ * or whose track fails to load, just get no previews.
+ */
+export function useSeekThumbnails(url: string | undefined) {
+  const { data } = useQuery({
+    queryKey: thumbnailKeys.track(url ?? ''),
+    queryFn: ({ signal }) => loadThumbnailTrack(url as string, signal),
+    enabled: !!url,
+    staleTime: Infinity,
+    retry: false,
+    meta: { silent: true },
+  });
+
+  return data;
+}
@@ -0,0 +1,38 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { Shortcut, ShortcutGroup, shortcutRegistry } from '@/lib/shortcuts';
+
+export function useShortcutGroups() {
+  return useSyncExternalStore(shortcutRegistry.subscribe, shortcutRegistry.getSnapshot);
+}
+
+/**
+ * Registers a group of shortcuts while the component is mounted and enabled.
+ * Handlers always see the latest render; the group is only re-registered (and
+ * moved to the top of the stack) when its bindings or descriptions change.
+ */
+export function useShortcuts(group: ShortcutGroup, enabled = true) {
+  const latestRef = useRef(group);
+  latestRef.current = group;
+
+  const signature = [
+    group.id,
+    group.title,
+    group.exclusive,
+    group.global,
+    ...group.shortcuts.map(shortcut => `${shortcut.keys.join('+')}:${shortcut.description}`),
+  ].join('|');
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const { shortcuts, ...rest } = latestRef.current;
+    return shortcutRegistry.register({
+      ...rest,
+      shortcuts: shortcuts.map((shortcut, index): Shortcut => ({
+        ...shortcut,
+        handler: (event) => latestRef.current.shortcuts[index]?.handler(event),
+      })),
+    });
+    // The signature covers everything registered except the handlers, which are read through the ref
+  }, [signature, enabled]);
+}
@@ -0,0 +1,225 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { StreamingPlayer } from '@/lib/streaming';
+import {
+  PlayerTextTrack,
+  SidecarSubtitle,
+  cueTextToHtml,
+  fileToVttUrl,
+  getActiveCueTexts,
+  getLanguageFromFileName,
+  isSubtitleTrack,
+  matchesLanguage,
+  resolveSidecarUrl,
+} from '@/lib/subtitles';
+import { playbackPreferencesService } from '@/services/playback-preferences';
+import { usePlaybackPreferences } from '@/hooks/use-playback-preferences';
+
+export interface SubtitleTrack {
+  id: string;
+  label: string;
+  language: string;
+  source: 'embedded' | 'sidecar' | 'file';
+}
+
+export const SUBTITLES_OFF = 'off';
+
+const NO_SIDECARS: SidecarSubtitle[] = [];
+
+interface TrackListLike {
+  length: number;
+  [index: number]: PlayerTextTrack;
+  addEventListener(type: string, listener: () => void): void;
+  removeEventListener(type: string, listener: () => void): void;
+}
+
+function getTextTracks(player: StreamingPlayer): PlayerTextTrack[] {
+  const list = player.textTracks() as unknown as TrackListLike;
+  const tracks: PlayerTextTrack[] = [];
+  for (let index = 0; index < list.length; index++) {
+    tracks.push(list[index]);
+  }
+  return tracks.filter(isSubtitleTrack);
+}
+
+type RemoteTrackElement = ReturnType<StreamingPlayer['addRemoteTextTrack']>;
+
+function getRemoteTrackId(element: RemoteTrackElement): string {
+  return (element as unknown as { track: PlayerTextTrack }).track.id;
+}
+
+export function useSubtitlePreferences() {
+  return usePlaybackPreferences().subtitles;
+}
+
+/**
+ * Subtitle tracks for the current stream: in-band tracks, sidecar files from
+ * the source and files the viewer loads. Tracks run in "hidden" mode and the
+ * active cue HTML is returned for the player to draw with the user's styling.
+ */
+export function useSubtitles(player: StreamingPlayer | null, sidecars: SidecarSubtitle[] = NO_SIDECARS) {
+  const { language: preferredLanguage } = useSubtitlePreferences();
+  const [tracks, setTracks] = useState<SubtitleTrack[]>([]);
+  const [currentTrack, setCurrentTrack] = useState(SUBTITLES_OFF);
+  const [offset, setOffset] = useState(0);
+  const [cues, setCues] = useState<string[]>([]);
+  // Tracks added by us, by id, so they can be labelled and cleaned up
+  const sourcesRef = useRef(new Map<string, SubtitleTrack['source']>());
+  const blobUrlsRef = useRef<string[]>([]);
+  // Set once the viewer picks a track, so preference matching stops overriding them
+  const userChoseRef = useRef(false);
+  const refreshTracksRef = useRef<() => void>(() => {});
+
+  // A new stream starts without a selection or offset
+  useEffect(() => {
+    setCurrentTrack(SUBTITLES_OFF);
+    setOffset(0);
+    setCues([]);
+    userChoseRef.current = false;
+    sourcesRef.current.clear();
+
+    return () => {
+      blobUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+      blobUrlsRef.current = [];
+    };
+  }, [player]);
+
+  // Mirror the player's subtitle tracks
+  useEffect(() => {
+    if (!player) {
+      setTracks([]);
+      return;
+    }
+
+    const list = player.textTracks() as unknown as TrackListLike;
+    const update = () => {
+      setTracks(getTextTracks(player).map((track, index) => ({
+        id: track.id,
+        label: track.label || track.language?.toUpperCase() || `Track ${index + 1}`,
+        language: track.language || '',
+        source: sourcesRef.current.get(track.id) || 'embedded',
+      })));
+    };
+
+    update();
+    refreshTracksRef.current = update;
+    list.addEventListener('addtrack', update);
+    list.addEventListener('removetrack', update);
+    return () => {
+      list.removeEventListener('addtrack', update);
+      list.removeEventListener('removetrack', update);
+    };
+  }, [player]);
+
+  // Attach the source's sidecar files
+  useEffect(() => {
+    if (!player || sidecars.length === 0) return;
+
+    const controller = new AbortController();
+    const added: RemoteTrackElement[] = [];
+
+    sidecars.forEach(async (sidecar) => {
+      try {
+        const { url, isBlob } = await resolveSidecarUrl(sidecar, controller.signal);
+        if (controller.signal.aborted) return;
+        if (isBlob) blobUrlsRef.current.push(url);
+
+        const element = player.addRemoteTextTrack({
+          kind: 'subtitles',
+          src: url,
+          srclang: sidecar.language,
+          label: sidecar.label || sidecar.language.toUpperCase(),
+          mode: 'disabled',
+        }, false);
+        sourcesRef.current.set(getRemoteTrackId(element), 'sidecar');
+        refreshTracksRef.current();
+        added.push(element);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error loading subtitles:', error);
+        }
+      }
+    });
+
+    return () => {
+      controller.abort();
+      added.forEach(element => player.removeRemoteTextTrack(element));
+    };
+  }, [player, sidecars]);
+
+  // Follow the saved language until the viewer picks something themselves
+  useEffect(() => {
+    if (userChoseRef.current || currentTrack !== SUBTITLES_OFF || !preferredLanguage) return;
+
+    const match = tracks.find(track => matchesLanguage(track.language, preferredLanguage));
+    if (match) {
+      setCurrentTrack(match.id);
+    }
+  }, [tracks, preferredLanguage, currentTrack]);
+
+  // Load the selected track's cues without letting the browser draw them
+  useEffect(() => {
+    if (!player) return;
+
+    getTextTracks(player).forEach((track) => {
+      track.mode = track.id === currentTrack ? 'hidden' : 'disabled';
+    });
+  }, [player, currentTrack, tracks]);
+
+  // Work out which cues are on screen, honouring the timing offset
+  useEffect(() => {
+    if (!player || currentTrack === SUBTITLES_OFF) {
+      setCues([]);
+      return;
+    }
+
+    const update = () => {
+      const track = getTextTracks(player).find(candidate => candidate.id === currentTrack);
+      const next = track ? getActiveCueTexts(track, player.currentTime() || 0, offset).map(cueTextToHtml) : [];
+      setCues(previous => previous.join('\n') === next.join('\n') ? previous : next);
+    };
+
+    update();
+    player.on('timeupdate', update);
+    player.on('seeked', update);
+    return () => {
+      player.off('timeupdate', update);
+      player.off('seeked', update);
+    };
+  }, [player, currentTrack, offset]);
+
+  const selectTrack = useCallback((id: string) => {
+    userChoseRef.current = true;
+    setCurrentTrack(id);
+
+    const track = tracks.find(candidate => candidate.id === id);
+    // Remember the choice for next time; unlabelled tracks leave the preference alone
+    if (id === SUBTITLES_OFF) {
+      playbackPreferencesService.updateSubtitles({ language: null });
+    } else if (track?.language) {
+      playbackPreferencesService.updateSubtitles({ language: track.language });
+    }
+  }, [tracks]);
+
+  const loadSubtitleFile = useCallback(async (file: File) => {
+    if (!player) return;
+
+    const url = await fileToVttUrl(file);
+    blobUrlsRef.current.push(url);
+
+    const element = player.addRemoteTextTrack({
+      kind: 'subtitles',
+      src: url,
+      srclang: getLanguageFromFileName(file.name),
+      label: file.name,
+      mode: 'disabled',
+    }, false);
+    const id = getRemoteTrackId(element);
+    sourcesRef.current.set(id, 'file');
+    refreshTracksRef.current();
+
+    userChoseRef.current = true;
+    setCurrentTrack(id);
+  }, [player]);
+
+  return { tracks, currentTrack, selectTrack, loadSubtitleFile, cues, offset, setOffset };
+}
@@ -0,0 +1,245 @@
+import { InfiniteData, InvalidateQueryFilters, QueryClient, keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { tmdbService, TMDBResponse } from '@/services/tmdb';
+import { tmdbCache } from '@/services/tmdb-cache';
+import { validateSearchQuery } from '@/lib/security';
+
+/**
+ * Typed TanStack Query hooks over TMDBService. Queries receive TanStack's
+ * AbortSignal, so a request whose key changes (e.g. a filter change) or whose
+ * last observer unmounts is cancelled instead of racing newer results.
+ */
+
+export type DiscoverMoviesParams = NonNullable<Parameters<typeof tmdbService.discoverMovies>[0]>;
+export type DiscoverTvShowsParams = NonNullable<Parameters<typeof tmdbService.discoverTvShows>[0]>;
+export type MovieCategory = 'popular' | 'top_rated' | 'latest' | 'upcoming';
+export type SearchType = 'movie' | 'tv';
+
+// Genres and languages barely change; tmdbCache persists them for days as well
+const STATIC_STALE_TIME = 24 * 60 * 60 * 1000;
+
+export const tmdbKeys = {
+  all: ['tmdb'] as const,
+  genres: () => [...tmdbKeys.all, 'genres'] as const,
+  tvGenres: () => [...tmdbKeys.all, 'tv-genres'] as const,
+  languages: () => [...tmdbKeys.all, 'languages'] as const,
+  discover: (params: Omit<DiscoverMoviesParams, 'page'>) => [...tmdbKeys.all, 'discover', params] as const,
+  category: (category: MovieCategory, params: Omit<DiscoverMoviesParams, 'page'>) =>
+    [...tmdbKeys.all, 'category', category, params] as const,
+  search: (type: SearchType, query: string) => [...tmdbKeys.all, 'search', type, query] as const,
+  movie: (movieId: number) => [...tmdbKeys.all, 'movie', movieId] as const,
+  movieVideos: (movieId: number) => [...tmdbKeys.all, 'movie', movieId, 'videos'] as const,
+  match: (title: string, year: number | null) => [...tmdbKeys.all, 'match', title, year] as const,
+  discoverTv: (params: Omit<DiscoverTvShowsParams, 'page'>) => [...tmdbKeys.all, 'discover-tv', params] as const,
+  tvShow: (tvId: number) => [...tmdbKeys.all, 'tv', tvId] as const,
+  season: (tvId: number, seasonNumber: number) => [...tmdbKeys.all, 'tv', tvId, 'season', seasonNumber] as const,
+};
+
+// Which queries read each TMDB endpoint; first match wins
+const ENDPOINT_QUERIES: { pattern: RegExp; filters: (match: RegExpMatchArray) => InvalidateQueryFilters[] }[] = [
+  { pattern: /^\/genre\/movie\/list$/, filters: () => [{ queryKey: tmdbKeys.genres() }] },
+  { pattern: /^\/genre\/tv\/list$/, filters: () => [{ queryKey: tmdbKeys.tvGenres() }] },
+  { pattern: /^\/configuration\/languages$/, filters: () => [{ queryKey: tmdbKeys.languages() }] },
+  {
+    pattern: /^\/discover\/movie$/,
+    filters: () => [{ queryKey: [...tmdbKeys.all, 'discover'] }, { queryKey: [...tmdbKeys.all, 'category'] }],
+  },
+  { pattern: /^\/movie\/(popular|top_rated|now_playing|upcoming)$/, filters: () => [{ queryKey: [...tmdbKeys.all, 'category'] }] },
+  {
+    pattern: /^\/search\/movie$/,
+    filters: () => [{ queryKey: [...tmdbKeys.all, 'search', 'movie'] }, { queryKey: [...tmdbKeys.all, 'match'] }],
+  },
+  { pattern: /^\/search\/tv$/, filters: () => [{ queryKey: [...tmdbKeys.all, 'search', 'tv'] }] },
+  { pattern: /^\/movie\/(\d+)$/, filters: ([, id]) => [{ queryKey: tmdbKeys.movie(Number(id)), exact: true }] },
+  { pattern: /^\/movie\/(\d+)\/videos$/, filters: ([, id]) => [{ queryKey: tmdbKeys.movieVideos(Number(id)) }] },
+  { pattern: /^\/discover\/tv$/, filters: () => [{ queryKey: [...tmdbKeys.all, 'discover-tv'] }] },
+  { pattern: /^\/tv\/(\d+)$/, filters: ([, id]) => [{ queryKey: tmdbKeys.tvShow(Number(id)), exact: true }] },
+  {
+    pattern: /^\/tv\/(\d+)\/season\/(\d+)$/,
+    filters: ([, id, season]) => [{ queryKey: tmdbKeys.season(Number(id), Number(season)) }],
+  },
+];
+
+/**
+ * Query filters for the queries built on a TMDB endpoint. Endpoints no hook
+ * is mapped to fall back to every TMDB query rather than being missed.
+ */
+export function getTmdbQueryFilters(endpoint: string): InvalidateQueryFilters[] {
+  for (const { pattern, filters } of ENDPOINT_QUERIES) {
+    const match = endpoint.match(pattern);
+    if (match) return filters(match);
+  }
+  return [{ queryKey: tmdbKeys.all }];
+}
+
+/**
+ * Refetches the queries built on an endpoint once tmdbCache has replaced
+ * stale data it already served, so the UI picks up the fresh response
+ * without a remount. The refetches are answered from the now-fresh cache,
+ * not the network. Returns a function that stops following the cache.
+ */
+export function invalidateTmdbQueriesOnRevalidate(queryClient: QueryClient): () => void {
+  return tmdbCache.subscribe((endpoint) => {
+    getTmdbQueryFilters(endpoint).forEach(filters => queryClient.invalidateQueries(filters));
+  });
+}
+
+function getNextPageParam<T>(lastPage: TMDBResponse<T>): number | undefined {
+  return lastPage.page < lastPage.total_pages ? lastPage.page + 1 : undefined;
+}
+
+/**
+ * Concatenates the results of every loaded page
+ */
+export function flattenResults<T>(data: InfiniteData<TMDBResponse<T>> | undefined): T[] {
+  return data?.pages.flatMap(page => page.results) ?? [];
+}
+
+export function useGenres() {
+  return useQuery({
+    queryKey: tmdbKeys.genres(),
+    queryFn: ({ signal }) => tmdbService.getGenres(signal),
+    select: data => data.genres,
+    staleTime: STATIC_STALE_TIME,
+  });
+}
+
+export function useTvGenres() {
+  return useQuery({
+    queryKey: tmdbKeys.tvGenres(),
+    queryFn: ({ signal }) => tmdbService.getTvGenres(signal),
+    select: data => data.genres,
+    staleTime: STATIC_STALE_TIME,
+  });
+}
+
+export function useLanguages() {
+  return useQuery({
+    queryKey: tmdbKeys.languages(),
+    queryFn: ({ signal }) => tmdbService.getLanguages(signal),
+    staleTime: STATIC_STALE_TIME,
+  });
+}
+
+export function useDiscoverMovies(params: Omit<DiscoverMoviesParams, 'page'>, enabled = true) {
+  return useInfiniteQuery({
+    queryKey: tmdbKeys.discover(params),
+    queryFn: ({ pageParam, signal }) => tmdbService.discoverMovies({ ...params, page: pageParam }, signal),
+    initialPageParam: 1,
+    getNextPageParam,
+    // Keep showing the previous results while a filter change loads
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+}
+
+/**
+ * Rows on the home page. Popular and top rated honour the catalog filters via
+ * discover; latest and upcoming use their dedicated endpoints.
+ */
+export function useCategoryMovies(category: MovieCategory, filters: Omit<DiscoverMoviesParams, 'page' | 'sort_by'>) {
+  const appliesFilters = category === 'popular' || category === 'top_rated';
+  const params = appliesFilters
+    ? { ...filters, sort_by: category === 'popular' ? 'popularity.desc' : 'vote_average.desc' }
+    : {};
+
+  return useInfiniteQuery({
+    queryKey: tmdbKeys.category(category, params),
+    queryFn: ({ pageParam, signal }) => {
+      switch (category) {
+        case 'latest':
+          return tmdbService.getLatestMovies(pageParam, signal);
+        case 'upcoming':
+          return tmdbService.getUpcomingMovies(pageParam, signal);
+        default:
+          return tmdbService.discoverMovies({ ...params, page: pageParam }, signal);
+      }
+    },
+    initialPageParam: 1,
+    getNextPageParam,
+  });
+}
+
+export function useSearch(query: string) {
+  const sanitizedQuery = validateSearchQuery(query);
+
+  return useInfiniteQuery({
+    queryKey: tmdbKeys.search('movie', sanitizedQuery),
+    queryFn: ({ pageParam, signal }) => tmdbService.searchMovies(sanitizedQuery, pageParam, signal),
+    initialPageParam: 1,
+    getNextPageParam,
+    enabled: sanitizedQuery.length > 0,
+  });
+}
+
+export function useTvSearch(query: string) {
+  const sanitizedQuery = validateSearchQuery(query);
+
+  return useInfiniteQuery({
+    queryKey: tmdbKeys.search('tv', sanitizedQuery),
+    queryFn: ({ pageParam, signal }) => tmdbService.searchTvShows(sanitizedQuery, pageParam, signal),
+    initialPageParam: 1,
+    getNextPageParam,
+    enabled: sanitizedQuery.length > 0,
+  });
+}
+
+export function useMovieDetails(movieId: number | null) {
+  return useQuery({
+    queryKey: tmdbKeys.movie(movieId ?? 0),
+    queryFn: ({ signal }) => tmdbService.getMovieDetails(movieId as number, signal),
+    enabled: !!movieId,
+  });
+}
+
+/**
+ * Embeddable previews for a movie, best trailer first
+ */
+export function useMovieVideos(movieId: number | null) {
+  return useQuery({
+    queryKey: tmdbKeys.movieVideos(movieId ?? 0),
+    queryFn: ({ signal }) => tmdbService.getMovieVideos(movieId as number, signal),
+    enabled: !!movieId,
+    staleTime: STATIC_STALE_TIME,
+    // Without a trailer the hero just shows its backdrop
+    meta: { silent: true },
+  });
+}
+
+/**
+ * TMDB movie for a title and year, e.g. parsed from a local file name
+ */
+export function useMovieMatch(title: string, year: number | null) {
+  return useQuery({
+    queryKey: tmdbKeys.match(title, year),
+    queryFn: ({ signal }) => tmdbService.matchMovie(title, year, signal),
+    enabled: title.length > 0,
+    staleTime: STATIC_STALE_TIME,
+    // Unmatched files still play, just without TMDB details
+    meta: { silent: true },
+  });
+}
+
+export function useDiscoverTvShows(params: Omit<DiscoverTvShowsParams, 'page'>) {
+  return useInfiniteQuery({
+    queryKey: tmdbKeys.discoverTv(params),
+    queryFn: ({ pageParam, signal }) => tmdbService.discoverTvShows({ ...params, page: pageParam }, signal),
+    initialPageParam: 1,
+    getNextPageParam,
+  });
+}
+
+export function useTvShowDetails(tvId: number | null) {
+  return useQuery({
+    queryKey: tmdbKeys.tvShow(tvId ?? 0),
+    queryFn: ({ signal }) => tmdbService.getTvShowDetails(tvId as number, signal),
+    enabled: !!tvId,
+  });
+}
+
+export function useSeasonDetails(tvId: number | null, seasonNumber: number | null) {
+  return useQuery({
+    queryKey: tmdbKeys.season(tvId ?? 0, seasonNumber ?? 0),
+    queryFn: ({ signal }) => tmdbService.getSeasonDetails(tvId as number, seasonNumber as number, signal),
+    enabled: !!tvId && seasonNumber !== null,
+  });
+}
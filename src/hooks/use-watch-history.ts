@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { watchHistoryService } from '@/services/watch-history';
+
+export function useWatchHistory() {
+  return useSyncExternalStore(watchHistoryService.subscribe, watchHistoryService.getSnapshot);
+}
@@ -0,0 +1,23 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { watchlistService } from '@/services/watchlist';
+import { Movie } from '@/services/tmdb';
+import { toast } from '@/hooks/use-toast';
+
+export function useWatchlist() {
+  const items = useSyncExternalStore(watchlistService.subscribe, watchlistService.getSnapshot);
+
+  const isInWatchlist = useCallback(
+    (movieId: number) => items.some(item => item.id === movieId),
+    [items]
+  );
+
+  const toggleWatchlist = useCallback(async (movie: Movie) => {
+    const added = await watchlistService.toggle(movie);
+    toast({
+      title: added ? "Added to Watchlist" : "Removed from Watchlist",
+      description: movie.title,
+    });
+  }, []);
+
+  return { items, isInWatchlist, toggleWatchlist };
+}
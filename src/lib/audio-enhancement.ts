@@ -0,0 +1,123 @@
+/**
+ * Optional Web Audio processing for the player: a compressor that evens out
+ * loud effects and quiet speech ("night mode") and an EQ that lifts the
+ * speech band. A media element can only be routed into Web Audio once, so
+ * elements stay untouched until an enhancement is first switched on.
+ */
+
+export interface AudioEnhancementSettings {
+  nightMode: boolean;
+  dialogueBoost: boolean;
+}
+
+// Compression squashes peaks, so make up some of the lost loudness
+const NIGHT_MODE_MAKEUP_GAIN = 1.8;
+// Speech intelligibility sits around 1-4 kHz
+const DIALOGUE_FREQUENCY = 2500;
+const DIALOGUE_GAIN_DB = 6;
+// Trims the low end that masks voices
+const RUMBLE_FREQUENCY = 200;
+const RUMBLE_GAIN_DB = -4;
+
+class AudioEnhancer {
+  private context = new AudioContext();
+  private source: MediaElementAudioSourceNode;
+  private compressor: DynamicsCompressorNode;
+  private rumbleCut: BiquadFilterNode;
+  private dialogueLift: BiquadFilterNode;
+  private output: GainNode;
+
+  constructor(element: HTMLMediaElement) {
+    const { context } = this;
+    this.source = context.createMediaElementSource(element);
+
+    this.compressor = context.createDynamicsCompressor();
+    this.compressor.threshold.value = -30;
+    this.compressor.knee.value = 20;
+    this.compressor.ratio.value = 8;
+    this.compressor.attack.value = 0.005;
+    this.compressor.release.value = 0.25;
+
+    this.rumbleCut = context.createBiquadFilter();
+    this.rumbleCut.type = 'lowshelf';
+    this.rumbleCut.frequency.value = RUMBLE_FREQUENCY;
+    this.rumbleCut.gain.value = RUMBLE_GAIN_DB;
+
+    this.dialogueLift = context.createBiquadFilter();
+    this.dialogueLift.type = 'peaking';
+    this.dialogueLift.frequency.value = DIALOGUE_FREQUENCY;
+    this.dialogueLift.Q.value = 0.8;
+    this.dialogueLift.gain.value = DIALOGUE_GAIN_DB;
+
+    this.output = context.createGain();
+    this.output.connect(context.destination);
+  }
+
+  apply({ nightMode, dialogueBoost }: AudioEnhancementSettings): void {
+    [this.source, this.compressor, this.rumbleCut, this.dialogueLift].forEach(node => node.disconnect());
+
+    const chain: AudioNode[] = [this.source];
+    if (dialogueBoost) chain.push(this.rumbleCut, this.dialogueLift);
+    if (nightMode) chain.push(this.compressor);
+    chain.push(this.output);
+
+    for (let index = 1; index < chain.length; index++) {
+      chain[index - 1].connect(chain[index]);
+    }
+    this.output.gain.value = nightMode ? NIGHT_MODE_MAKEUP_GAIN : 1;
+    this.resume();
+  }
+
+  // Contexts created without a recent user gesture start suspended
+  resume(): void {
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(console.error);
+    }
+  }
+
+  close(): void {
+    this.context.close().catch(console.error);
+  }
+}
+
+const enhancers = new WeakMap<HTMLMediaElement, AudioEnhancer>();
+
+/**
+ * Whether Web Audio can hear the element. Media streams and local files play
+ * from blob: URLs; cross-origin files without CORS would come out silent.
+ */
+export function canEnhanceAudio(element: HTMLMediaElement): boolean {
+  const src = element.currentSrc;
+  if (!src) return false;
+  if (src.startsWith('blob:')) return true;
+
+  try {
+    return new URL(src).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+export function hasAudioEnhancement(element: HTMLMediaElement): boolean {
+  return enhancers.has(element);
+}
+
+export function applyAudioEnhancement(element: HTMLMediaElement, settings: AudioEnhancementSettings): void {
+  let enhancer = enhancers.get(element);
+  if (!enhancer) {
+    // Nothing to undo, so keep the element out of Web Audio altogether
+    if (!settings.nightMode && !settings.dialogueBoost) return;
+    enhancer = new AudioEnhancer(element);
+    enhancers.set(element, enhancer);
+  }
+  enhancer.apply(settings);
+}
+
+export function resumeAudioEnhancement(element: HTMLMediaElement): void {
+  enhancers.get(element)?.resume();
+}
+
+export function releaseAudioEnhancement(element: HTMLMediaElement): void {
+  enhancers.get(element)?.close();
+  enhancers.delete(element);
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { getChapterAt, getChapterType, parseChapterJson, parseChapterVtt } from '@/lib/chapters';
+import { ResponseValidationError } from '@/lib/error-handler';
+
+describe('parseChapterVtt', () => {
+  it('reads chapters and guesses their types from the titles', () => {
+    const chapters = parseChapterVtt([
+      'WEBVTT',
+      '',
+      '1',
+      '00:00:00.000 --> 00:01:32.000',
+      'Opening Titles',
+      '',
+      '2',
+      '00:01:32.000 --> 01:54:00.000',
+      'The Heist',
+      '',
+      '3',
+      '01:54:00.000 --> 02:00:00.000',
+      'End Credits',
+    ].join('\n'));
+
+    expect(chapters).toEqual([
+      { start: 0, end: 92, title: 'Opening Titles', type: 'intro' },
+      { start: 92, end: 6840, title: 'The Heist', type: 'chapter' },
+      { start: 6840, end: 7200, title: 'End Credits', type: 'credits' },
+    ]);
+  });
+
+  it('reads hour-less and comma timestamps, a byte order mark and CRLF line endings', () => {
+    const chapters = parseChapterVtt('\uFEFFWEBVTT\r\n\r\n00:00.000 --> 01:30.000\r\nPart One\r\n\r\n00:01:30,000 --> 00:03:00,500\r\nPart Two\r\n');
+
+    expect(chapters.map(({ start, end, title }) => ({ start, end, title }))).toEqual([
+      { start: 0, end: 90, title: 'Part One' },
+      { start: 90, end: 180.5, title: 'Part Two' },
+    ]);
+  });
+
+  it('sorts cues that are out of order', () => {
+    const chapters = parseChapterVtt('WEBVTT\n\n00:10:00.000 --> 00:20:00.000\nSecond\n\n00:00:00.000 --> 00:10:00.000\nFirst');
+
+    expect(chapters.map(chapter => chapter.title)).toEqual(['First', 'Second']);
+  });
+
+  it('skips cues without a title', () => {
+    expect(parseChapterVtt('WEBVTT\n\n00:00:00.000 --> 00:10:00.000\n\n00:10:00.000 --> 00:20:00.000\nNamed')).toHaveLength(1);
+  });
+});
+
+describe('parseChapterJson', () => {
+  it('runs chapters without an end until the next one, and the last to the end of the video', () => {
+    const chapters = parseChapterJson({
+      chapters: [
+        { start: 0, end: 92, title: 'Opening Titles', type: 'intro' },
+        { start: 92, title: 'The Heist' },
+        { start: 6840, title: 'End Credits', type: 'credits' },
+      ],
+    }, 'chapters');
+
+    expect(chapters.map(chapter => chapter.end)).toEqual([92, 6840, Infinity]);
+  });
+
+  it('sorts unsorted chapters before filling in ends and titles', () => {
+    const chapters = parseChapterJson([
+      { start: 600 },
+      { start: 0 },
+      { start: 300, type: 'credits' },
+    ], 'chapters');
+
+    expect(chapters).toEqual([
+      { start: 0, end: 300, title: 'Chapter 1', type: 'chapter' },
+      { start: 300, end: 600, title: 'Credits', type: 'credits' },
+      { start: 600, end: Infinity, title: 'Chapter 3', type: 'chapter' },
+    ]);
+  });
+
+  it('treats unknown types as plain chapters', () => {
+    const [chapter] = parseChapterJson([{ start: 0, title: 'Recap', type: 'recap' }], 'chapters');
+
+    expect(chapter.type).toBe('chapter');
+  });
+
+  it('rejects files that are not chapter lists', () => {
+    expect(() => parseChapterJson({ chapters: [{ title: 'No start' }] }, 'chapters')).toThrow(ResponseValidationError);
+    expect(() => parseChapterJson([{ start: -5 }], 'chapters')).toThrow(ResponseValidationError);
+    expect(() => parseChapterJson('chapters', 'chapters')).toThrow(ResponseValidationError);
+  });
+});
+
+describe('getChapterType', () => {
+  it('matches whole words only', () => {
+    expect(getChapterType('Opening Credits')).toBe('intro');
+    expect(getChapterType('Outro')).toBe('credits');
+    expect(getChapterType('Introduction to Physics')).toBe('chapter');
+  });
+});
+
+describe('getChapterAt', () => {
+  const chapters = parseChapterJson([{ start: 0 }, { start: 60 }], 'chapters');
+
+  it('finds the chapter playing at a time', () => {
+    expect(getChapterAt(chapters, 59.9)?.title).toBe('Chapter 1');
+    expect(getChapterAt(chapters, 60)?.title).toBe('Chapter 2');
+    expect(getChapterAt(chapters, 99999)?.title).toBe('Chapter 2');
+  });
+
+  it('finds nothing before the first chapter', () => {
+    expect(getChapterAt(parseChapterJson([{ start: 10 }], 'chapters'), 5)).toBeNull();
+  });
+});
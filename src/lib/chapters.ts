@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import { ResponseValidationError } from '@/lib/error-handler';
+import { parseVttCues } from '@/lib/webvtt';
+
+/**
+ * Chapters come from a WebVTT chapters track or a sidecar JSON file:
+ *
+ *   {
+ *     "chapters": [
+ *       { "start": 0, "end": 92, "title": "Opening Titles", "type": "intro" },
+ *       { "start": 92, "title": "The Heist" },
+ *       { "start": 6840, "title": "End Credits", "type": "credits" }
+ *     ]
+ *   }
+ *
+ * A chapter without an end runs until the next one. "intro" and "credits"
+ * chapters drive the skip-intro button and the up-next card; WebVTT chapters
+ * get those types from their titles.
+ */
+
+export type ChapterType = 'chapter' | 'intro' | 'credits';
+
+export interface Chapter {
+  start: number;
+  // Infinity for a final chapter that runs to the end of the video
+  end: number;
+  title: string;
+  type: ChapterType;
+}
+
+const chapterSchema = z.object({
+  start: z.number().min(0),
+  end: z.number().min(0).optional(),
+  title: z.string().optional(),
+  type: z.enum(['chapter', 'intro', 'credits']).catch('chapter'),
+});
+
+const chaptersFileSchema = z.union([
+  z.object({ chapters: z.array(chapterSchema) }).transform(file => file.chapters),
+  z.array(chapterSchema),
+]);
+
+interface ChapterEntry {
+  start: number;
+  end?: number;
+  title?: string;
+  type: ChapterType;
+}
+
+const DEFAULT_TITLES: Record<ChapterType, string> = {
+  chapter: 'Chapter',
+  intro: 'Intro',
+  credits: 'Credits',
+};
+
+/**
+ * Guesses a segment type from a chapter title, e.g. "Opening Credits" is an intro
+ */
+export function getChapterType(title: string): ChapterType {
+  if (/\b(intro|opening)\b/i.test(title)) return 'intro';
+  if (/\b(credits|outro)\b/i.test(title)) return 'credits';
+  return 'chapter';
+}
+
+// Sorts chapters and fills in missing ends and titles
+function normalizeChapters(entries: ChapterEntry[]): Chapter[] {
+  const sorted = [...entries].sort((a, b) => a.start - b.start);
+  return sorted.map((entry, index) => ({
+    start: entry.start,
+    end: entry.end ?? sorted[index + 1]?.start ?? Infinity,
+    title: entry.title || (entry.type === 'chapter' ? `${DEFAULT_TITLES.chapter} ${index + 1}` : DEFAULT_TITLES[entry.type]),
+    type: entry.type,
+  }));
+}
+
+export function parseChapterVtt(text: string): Chapter[] {
+  return normalizeChapters(parseVttCues(text).map((cue) => {
+    const title = cue.text.split('\n')[0];
+    return { start: cue.start, end: cue.end, title, type: getChapterType(title) };
+  }));
+}
+
+export function parseChapterJson(data: unknown, source: string): Chapter[] {
+  const result = chaptersFileSchema.safeParse(data);
+  if (!result.success) {
+    throw new ResponseValidationError(source, result.error.issues.map(issue => issue.message));
+  }
+  return normalizeChapters(result.data as ChapterEntry[]);
+}
+
+/**
+ * Loads a chapters file, telling JSON from WebVTT by content type or extension
+ */
+export async function loadChapters(url: string, signal?: AbortSignal): Promise<Chapter[]> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Chapters request failed: ${response.status}`);
+  }
+
+  const isJson = response.headers.get('content-type')?.includes('json') || /\.json$/i.test(url.split(/[?#]/)[0]);
+  return isJson
+    ? parseChapterJson(await response.json(), 'chapters')
+    : parseChapterVtt(await response.text());
+}
+
+export function getChapterAt(chapters: Chapter[], time: number): Chapter | null {
+  return chapters.find(chapter => time >= chapter.start && time < chapter.end) ?? null;
+}
@@ -0,0 +1,89 @@
+import { StreamType, getStreamType } from '@/lib/streaming';
+
+/**
+ * Snapshot of playback health for the "stats for nerds" overlay and bug
+ * reports. Bitrates are in bits per second, times in seconds unless noted.
+ */
+
+export interface PlaybackDiagnostics {
+  source: string;
+  // Host only; full URLs can carry access tokens
+  host: string;
+  streamType: StreamType;
+  resolution: { width: number; height: number } | null;
+  currentBitrate: number | null;
+  estimatedBandwidth: number | null;
+  // Seconds buffered ahead of the playhead
+  bufferHealth: number;
+  droppedFrames: number | null;
+  totalFrames: number | null;
+  rebufferCount: number;
+  timeToFirstFrameMs: number | null;
+  currentTime: number;
+  duration: number;
+  playbackRate: number;
+  userAgent: string;
+  capturedAt: string;
+}
+
+export interface DiagnosticsInput {
+  video: HTMLVideoElement;
+  sourceName: string;
+  url: string;
+  mimeType?: string;
+  currentBitrate: number | null;
+  estimatedBandwidth: number | null;
+  rebufferCount: number;
+  timeToFirstFrameMs: number | null;
+}
+
+function getHost(url: string): string {
+  if (url.startsWith('blob:')) return 'local file';
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
+
+// Buffered media from the playhead up to the first gap
+function getBufferAhead(video: HTMLVideoElement): number {
+  const { buffered, currentTime } = video;
+  for (let index = 0; index < buffered.length; index++) {
+    if (buffered.start(index) <= currentTime && currentTime <= buffered.end(index)) {
+      return buffered.end(index) - currentTime;
+    }
+  }
+  return 0;
+}
+
+export function collectPlaybackDiagnostics(input: DiagnosticsInput): PlaybackDiagnostics {
+  const { video } = input;
+  const quality = typeof video.getVideoPlaybackQuality === 'function' ? video.getVideoPlaybackQuality() : null;
+
+  return {
+    source: input.sourceName,
+    host: getHost(input.url),
+    streamType: getStreamType(input.url, input.mimeType),
+    resolution: video.videoWidth ? { width: video.videoWidth, height: video.videoHeight } : null,
+    currentBitrate: input.currentBitrate,
+    estimatedBandwidth: input.estimatedBandwidth,
+    bufferHealth: getBufferAhead(video),
+    droppedFrames: quality?.droppedVideoFrames ?? null,
+    totalFrames: quality?.totalVideoFrames ?? null,
+    rebufferCount: input.rebufferCount,
+    timeToFirstFrameMs: input.timeToFirstFrameMs,
+    currentTime: video.currentTime,
+    duration: isFinite(video.duration) ? video.duration : 0,
+    playbackRate: video.playbackRate,
+    userAgent: navigator.userAgent,
+    capturedAt: new Date().toISOString(),
+  };
+}
+
+export function formatBitrate(bitsPerSecond: number | null): string {
+  if (!bitsPerSecond) return '—';
+  return bitsPerSecond >= 1_000_000
+    ? `${(bitsPerSecond / 1_000_000).toFixed(2)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+}
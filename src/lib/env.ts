@@ -1,24 +1,11 @@
 /**
- * Environment variable validation and access
+ * Environment variable access. The TMDB API key is deliberately absent: it
+ * lives server-side (TMDB_API_KEY) and is added by the /tmdb proxy.
  */
 
 export const env = {
-  TMDB_API_KEY: import.meta.env.VITE_TMDB_API_KEY || '15d2ea6d0dc1d476efbca3eba2b9bbfb',
   NODE_ENV: import.meta.env.NODE_ENV || 'development',
   DEV: import.meta.env.DEV || false,
+  // Runtime list of playback source providers; see public/playback-sources.json
+  PLAYBACK_CONFIG_URL: import.meta.env.VITE_PLAYBACK_CONFIG_URL || '/playback-sources.json',
 } as const;
-
-/**
- * Validates that required environment variables are present
- */
-export function validateEnvironment(): void {
-  const required = ['VITE_TMDB_API_KEY'];
-  const missing = required.filter(key => !import.meta.env[key]);
-  
-  if (missing.length > 0 && import.meta.env.PROD) {
-    console.warn(`Missing environment variables in production: ${missing.join(', ')}`);
-  }
-}
-
-// Validate environment on import
-validateEnvironment();
\ No newline at end of file
@@ -23,6 +23,16 @@ export class ValidationError extends Error {
   }
 }
 
+/**
+ * An API response that no longer matches the schema the app expects
+ */
+export class ResponseValidationError extends ValidationError {
+  constructor(public endpoint: string, public issues: string[] = []) {
+    super(`Unexpected response from ${endpoint}`, issues[0]?.split(':')[0]);
+    this.name = 'ResponseValidationError';
+  }
+}
+
 /**
  * Logs security-related events (in development) and handles errors gracefully
  */
@@ -49,6 +59,11 @@ export function handleSecureError(error: unknown): string {
     return 'Too many requests. Please wait a moment and try again.';
   }
   
+  if (error instanceof ResponseValidationError) {
+    logSecurityEvent('schema_drift', { endpoint: error.endpoint, issues: error.issues });
+    return 'Received unexpected data from the movie database. Please try again later.';
+  }
+
   if (error instanceof ValidationError) {
     logSecurityEvent('validation_error', { message: error.message, field: error.field });
     return `Invalid ${error.field || 'input'}. Please check your input and try again.`;
@@ -0,0 +1,96 @@
+/**
+ * Minimal promise wrapper around IndexedDB for client-side persistence
+ */
+
+const DB_NAME = 'cloudstream';
+const DB_VERSION = 3;
+
+/**
+ * Object stores and their key paths. Bump DB_VERSION when adding a store so
+ * existing databases get upgraded.
+ */
+const STORES = {
+  watchlist: 'id',
+  history: 'id',
+  tmdb_cache: 'key',
+} as const;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      (Object.keys(STORES) as StoreName[]).forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: STORES[name] });
+        }
+      });
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let other tabs upgrade the schema instead of blocking them
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function idbGetAll<T>(storeName: StoreName): Promise<T[]> {
+  return withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+}
+
+export function idbGet<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+}
+
+export async function idbPut<T>(storeName: StoreName, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.put(value));
+}
+
+export async function idbDelete(storeName: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+}
+
+export async function idbClear(storeName: StoreName): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.clear());
+}
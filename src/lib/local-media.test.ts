@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseMediaFileName, splitMediaFiles } from '@/lib/local-media';
+
+describe('parseMediaFileName', () => {
+  it('reads title and year from release names', () => {
+    expect(parseMediaFileName('The.Matrix.1999.1080p.BluRay.x264.mkv')).toEqual({ title: 'The Matrix', year: 1999 });
+    expect(parseMediaFileName('Blade_Runner_2049_2017_2160p_HDR.mp4')).toEqual({ title: 'Blade Runner 2049', year: 2017 });
+  });
+
+  it('reads plain names with the year in brackets', () => {
+    expect(parseMediaFileName('Heat (1995).mkv')).toEqual({ title: 'Heat', year: 1995 });
+    expect(parseMediaFileName('Alien [1979] - Directors Cut.mp4')).toEqual({ title: 'Alien', year: 1979 });
+  });
+
+  it('keeps a year that is part of the title', () => {
+    expect(parseMediaFileName('2001.A.Space.Odyssey.1968.mkv')).toEqual({ title: '2001 A Space Odyssey', year: 1968 });
+    expect(parseMediaFileName('1917.2019.mkv')).toEqual({ title: '1917', year: 2019 });
+    expect(parseMediaFileName('1917.mkv')).toEqual({ title: '1917', year: null });
+  });
+
+  it('cuts the title at the first release tag when there is no year', () => {
+    expect(parseMediaFileName('Arrival.720p.WEB-DL.mkv')).toEqual({ title: 'Arrival', year: null });
+  });
+
+  it("doesn't mistake resolutions or codecs for years", () => {
+    expect(parseMediaFileName('Movie.Title.2160p.x265.mkv').year).toBeNull();
+  });
+
+  it('falls back to the base name when nothing is left', () => {
+    expect(parseMediaFileName('1080p.mkv')).toEqual({ title: '1080p', year: null });
+  });
+});
+
+describe('splitMediaFiles', () => {
+  it('picks the first video and every subtitle file', () => {
+    const files = [
+      new File([], 'notes.txt'),
+      new File([], 'Movie.en.srt'),
+      new File([], 'Movie.mkv'),
+      new File([], 'Other.mp4'),
+      new File([], 'Movie.fr.VTT'),
+    ];
+
+    const { video, subtitles } = splitMediaFiles(files);
+
+    expect(video?.name).toBe('Movie.mkv');
+    expect(subtitles.map(file => file.name)).toEqual(['Movie.en.srt', 'Movie.fr.VTT']);
+  });
+
+  it('finds no video in a subtitle-only selection', () => {
+    expect(splitMediaFiles([new File([], 'Movie.en.srt')]).video).toBeNull();
+  });
+});
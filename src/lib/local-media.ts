@@ -0,0 +1,123 @@
+import { SUBTITLE_FILE_TYPES } from '@/lib/subtitles';
+
+/**
+ * Helpers for playing files from the user's disk: telling videos from
+ * subtitles, the File System Access picker (with an <input> fallback) and
+ * guessing the title and year from release-style file names.
+ */
+
+export interface ParsedMediaName {
+  title: string;
+  year: number | null;
+}
+
+const VIDEO_EXTENSIONS = ['.mp4', '.m4v', '.mkv', '.webm', '.mov', '.ogv', '.avi'];
+
+// Release tags that mark the end of the title in names like "Movie.Name.1080p.BluRay.x264"
+const RELEASE_TAGS = /\b(?:480p|576p|720p|1080p|2160p|4k|uhd|hdr10?|dv|bluray|blu-ray|bdrip|brrip|web-?dl|webrip|hdtv|dvdrip|remux|x264|x265|h\.?264|h\.?265|hevc|avc|aac|ac3|dts|atmos|proper|repack|extended|unrated|directors\.?cut|imax|multi)\b/i;
+
+const YEAR = /(?:^|[\s.(_[-])((?:19|20)\d{2})(?=$|[\s.)_\]-])/g;
+
+function getExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+}
+
+export function isVideoFile(file: File): boolean {
+  return file.type.startsWith('video/') || VIDEO_EXTENSIONS.includes(getExtension(file.name));
+}
+
+export function isSubtitleFile(file: File): boolean {
+  return SUBTITLE_FILE_TYPES.split(',').includes(getExtension(file.name));
+}
+
+/**
+ * The first video in a selection and any subtitle files that came with it
+ */
+export function splitMediaFiles(files: File[]): { video: File | null; subtitles: File[] } {
+  return {
+    video: files.find(isVideoFile) ?? null,
+    subtitles: files.filter(isSubtitleFile),
+  };
+}
+
+/**
+ * Guesses title and year from a file name:
+ * "The.Matrix.1999.1080p.BluRay.x264.mkv" → { title: "The Matrix", year: 1999 }
+ */
+export function parseMediaFileName(fileName: string): ParsedMediaName {
+  const base = fileName.replace(/\.[^.]+$/, '');
+
+  // The last plausible year wins, so titles like "2001 A Space Odyssey (1968)" work
+  let year: number | null = null;
+  let titleEnd = base.length;
+  for (const match of base.matchAll(YEAR)) {
+    year = parseInt(match[1], 10);
+    titleEnd = match.index;
+  }
+  // A year at the very start is part of the title ("1917.2019.mkv" keeps "1917")
+  if (titleEnd === 0) {
+    year = null;
+    titleEnd = base.length;
+  }
+
+  let title = base.slice(0, titleEnd);
+  const tag = title.match(RELEASE_TAGS);
+  if (tag?.index) title = title.slice(0, tag.index);
+
+  title = title
+    .replace(/[._]+/g, ' ')
+    .replace(/\[[^\]]*\]|\([^)]*\)/g, ' ')
+    .replace(/\s+-\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { title: title || base, year };
+}
+
+interface FilePickerWindow {
+  showOpenFilePicker?: (options: {
+    multiple?: boolean;
+    types?: Array<{ description: string; accept: Record<string, string[]> }>;
+  }) => Promise<Array<{ getFile(): Promise<File> }>>;
+}
+
+function pickWithInput(accept: string): Promise<File[]> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.multiple = true;
+    input.accept = accept;
+    input.addEventListener('change', () => resolve(Array.from(input.files ?? [])));
+    input.addEventListener('cancel', () => resolve([]));
+    input.click();
+  });
+}
+
+/**
+ * Lets the user pick a video (and subtitles), using the File System Access API
+ * where available. Resolves to an empty list when the picker is dismissed.
+ */
+export async function pickMediaFiles(): Promise<File[]> {
+  const picker = (window as Window & FilePickerWindow).showOpenFilePicker;
+  const subtitleExtensions = SUBTITLE_FILE_TYPES.split(',');
+
+  if (!picker) {
+    return pickWithInput(['video/*', ...VIDEO_EXTENSIONS, ...subtitleExtensions].join(','));
+  }
+
+  try {
+    const handles = await picker.call(window, {
+      multiple: true,
+      types: [
+        { description: 'Videos', accept: { 'video/*': VIDEO_EXTENSIONS } },
+        { description: 'Subtitles', accept: { 'text/plain': subtitleExtensions } },
+      ],
+    });
+    return Promise.all(handles.map(handle => handle.getFile()));
+  } catch (error) {
+    // Dismissing the picker rejects with an AbortError
+    if (error instanceof DOMException && error.name === 'AbortError') return [];
+    throw error;
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { PlayerAction, PlayerState, initialPlayerState, playerReducer } from '@/lib/player-machine';
+
+function run(actions: PlayerAction[], state: PlayerState = initialPlayerState): PlayerState {
+  return actions.reduce(playerReducer, state);
+}
+
+describe('playerReducer', () => {
+  it('starts resolving the first source on open', () => {
+    const state = run([{ type: 'OPEN', sourceCount: 3 }]);
+
+    expect(state).toMatchObject({ status: 'resolving', sourceIndex: 0, sourceCount: 3, attempt: 1 });
+  });
+
+  it('fails straight away when there are no sources', () => {
+    const state = run([{ type: 'OPEN', sourceCount: 0 }]);
+
+    expect(state.status).toBe('error');
+  });
+
+  it('walks a direct source through loading to playback', () => {
+    const state = run([
+      { type: 'OPEN', sourceCount: 1 },
+      { type: 'RESOLVED', attempt: 1, mode: 'direct' },
+      { type: 'LOADED', attempt: 1 },
+      { type: 'PLAY' },
+      { type: 'WAITING' },
+      { type: 'CAN_PLAY', paused: false },
+    ]);
+
+    expect(state).toMatchObject({ status: 'playing', mode: 'direct' });
+  });
+
+  it('treats embeds as ready once resolved', () => {
+    const state = run([
+      { type: 'OPEN', sourceCount: 1 },
+      { type: 'RESOLVED', attempt: 1, mode: 'iframe' },
+    ]);
+
+    expect(state).toMatchObject({ status: 'ready', mode: 'iframe' });
+  });
+
+  describe('stale attempts', () => {
+    it('ignores results from a superseded attempt', () => {
+      const switched = run([
+        { type: 'OPEN', sourceCount: 2 },
+        { type: 'NEXT_SOURCE' },
+      ]);
+
+      expect(playerReducer(switched, { type: 'RESOLVED', attempt: 1, mode: 'direct' })).toBe(switched);
+      expect(playerReducer(switched, { type: 'LOADED', attempt: 1 })).toBe(switched);
+      expect(playerReducer(switched, { type: 'FAILED', attempt: 1, message: 'late' })).toBe(switched);
+    });
+
+    it('ignores results that arrive after closing', () => {
+      const closed = run([
+        { type: 'OPEN', sourceCount: 1 },
+        { type: 'CLOSE' },
+      ]);
+
+      expect(playerReducer(closed, { type: 'RESOLVED', attempt: 1, mode: 'direct' })).toBe(closed);
+      expect(playerReducer(closed, { type: 'FAILED', attempt: 1, message: 'late' })).toBe(closed);
+    });
+
+    it('ignores a load result for an attempt that is still resolving', () => {
+      const resolving = run([{ type: 'OPEN', sourceCount: 1 }]);
+
+      expect(playerReducer(resolving, { type: 'LOADED', attempt: 1 })).toBe(resolving);
+    });
+  });
+
+  describe('failures', () => {
+    it('moves on to the next source when one fails', () => {
+      const state = run([
+        { type: 'OPEN', sourceCount: 2 },
+        { type: 'RESOLVED', attempt: 1, mode: 'direct' },
+        { type: 'FAILED', attempt: 1, message: 'Trying the next source…' },
+      ]);
+
+      expect(state).toMatchObject({ status: 'resolving', sourceIndex: 1, attempt: 2, message: 'Trying the next source…' });
+    });
+
+    it('errors once every source has failed', () => {
+      const state = run([
+        { type: 'OPEN', sourceCount: 2 },
+        { type: 'FAILED', attempt: 1, message: 'first' },
+        { type: 'FAILED', attempt: 2, message: 'second' },
+      ]);
+
+      expect(state).toMatchObject({ status: 'error', mode: null, sourceIndex: 1 });
+      expect(state.message).toMatch(/All video sources failed/);
+    });
+
+    it('ignores failures once the source is playing', () => {
+      const playing = run([
+        { type: 'OPEN', sourceCount: 2 },
+        { type: 'RESOLVED', attempt: 1, mode: 'direct' },
+        { type: 'LOADED', attempt: 1 },
+      ]);
+
+      expect(playerReducer(playing, { type: 'FAILED', attempt: 1, message: 'late' })).toBe(playing);
+    });
+  });
+
+  describe('manual source changes', () => {
+    it('skips to the next source with a fresh attempt', () => {
+      const state = run([
+        { type: 'OPEN', sourceCount: 3 },
+        { type: 'RESOLVED', attempt: 1, mode: 'iframe' },
+        { type: 'NEXT_SOURCE' },
+      ]);
+
+      expect(state).toMatchObject({ status: 'resolving', sourceIndex: 1, mode: null, attempt: 2 });
+    });
+
+    it('errors when skipping past the last source', () => {
+      const state = run([
+        { type: 'OPEN', sourceCount: 1 },
+        { type: 'NEXT_SOURCE' },
+      ]);
+
+      expect(state).toMatchObject({ status: 'error', message: 'All sources have been tried.' });
+    });
+
+    it('retries from the first source after an error', () => {
+      const state = run([
+        { type: 'OPEN', sourceCount: 2 },
+        { type: 'FAILED', attempt: 1, message: 'first' },
+        { type: 'FAILED', attempt: 2, message: 'second' },
+        { type: 'RETRY' },
+      ]);
+
+      expect(state).toMatchObject({ status: 'resolving', sourceIndex: 0, attempt: 3, message: '' });
+    });
+
+    it('stays on the error when there are no sources to retry or skip to', () => {
+      const empty = run([{ type: 'OPEN', sourceCount: 0 }]);
+
+      for (const action of [{ type: 'RETRY' }, { type: 'NEXT_SOURCE' }] as PlayerAction[]) {
+        const state = playerReducer(empty, action);
+        expect(state).toMatchObject({ status: 'error', attempt: empty.attempt, message: empty.message });
+      }
+    });
+
+    it('does nothing while idle', () => {
+      expect(playerReducer(initialPlayerState, { type: 'NEXT_SOURCE' })).toBe(initialPlayerState);
+      expect(playerReducer(initialPlayerState, { type: 'RETRY' })).toBe(initialPlayerState);
+    });
+  });
+
+  it('resets on close but keeps counting attempts', () => {
+    const state = run([
+      { type: 'OPEN', sourceCount: 2 },
+      { type: 'RESOLVED', attempt: 1, mode: 'direct' },
+      { type: 'LOADED', attempt: 1 },
+      { type: 'CLOSE' },
+    ]);
+
+    expect(state).toEqual({ ...initialPlayerState, attempt: 2 });
+  });
+});
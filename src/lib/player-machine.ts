@@ -0,0 +1,149 @@
+/**
+ * Player lifecycle as a pure reducer, so source switching, failures and
+ * playback transitions can be reasoned about (and tested) without a DOM.
+ *
+ *   idle → resolving → loading → ready ⇄ playing ⇄ buffering
+ *   resolving → ready (embeds, shown in an iframe)
+ *   resolving / loading → resolving the next source, or error once none are left
+ *
+ * Every load is tagged with an `attempt` number. Async results carry the
+ * attempt they belong to, and results from an attempt that has since been
+ * superseded (source switched, retried, closed) are ignored.
+ */
+
+export type PlayerStatus = 'idle' | 'resolving' | 'loading' | 'ready' | 'playing' | 'buffering' | 'error';
+
+// How the current source is shown: through the streaming engine or an embed iframe
+export type PlaybackMode = 'direct' | 'iframe';
+
+export interface PlayerState {
+  status: PlayerStatus;
+  sourceIndex: number;
+  sourceCount: number;
+  mode: PlaybackMode | null;
+  attempt: number;
+  // Progress or failure text for the current status
+  message: string;
+}
+
+export type PlayerAction =
+  | { type: 'OPEN'; sourceCount: number }
+  | { type: 'CLOSE' }
+  | { type: 'RESOLVED'; attempt: number; mode: PlaybackMode }
+  | { type: 'LOADED'; attempt: number }
+  | { type: 'FAILED'; attempt: number; message: string }
+  | { type: 'NEXT_SOURCE' }
+  | { type: 'RETRY' }
+  | { type: 'PLAY' }
+  | { type: 'PAUSE' }
+  | { type: 'WAITING' }
+  | { type: 'CAN_PLAY'; paused: boolean };
+
+export const initialPlayerState: PlayerState = {
+  status: 'idle',
+  sourceIndex: 0,
+  sourceCount: 0,
+  mode: null,
+  attempt: 0,
+  message: '',
+};
+
+const NO_SOURCES_MESSAGE = 'No video sources are available for this title.';
+
+// Statuses in which media is attached and reporting playback events
+const ACTIVE_STATUSES: PlayerStatus[] = ['ready', 'playing', 'buffering'];
+
+function startSource(state: PlayerState, sourceIndex: number, message = ''): PlayerState {
+  return {
+    ...state,
+    status: 'resolving',
+    sourceIndex,
+    mode: null,
+    attempt: state.attempt + 1,
+    message,
+  };
+}
+
+function fail(state: PlayerState, message: string): PlayerState {
+  return { ...state, status: 'error', mode: null, message };
+}
+
+export function playerReducer(state: PlayerState, action: PlayerAction): PlayerState {
+  switch (action.type) {
+    case 'OPEN':
+      if (action.sourceCount === 0) {
+        return fail({ ...state, sourceCount: 0 }, NO_SOURCES_MESSAGE);
+      }
+      return startSource({ ...state, sourceCount: action.sourceCount }, 0);
+
+    case 'CLOSE':
+      // Keep counting attempts so late results from before closing stay stale
+      return { ...initialPlayerState, attempt: state.attempt + 1 };
+
+    case 'RESOLVED':
+      if (action.attempt !== state.attempt || state.status !== 'resolving') return state;
+      // Embeds can't be observed, so they count as ready as soon as they are shown
+      return action.mode === 'iframe'
+        ? { ...state, status: 'ready', mode: 'iframe', message: '' }
+        : { ...state, status: 'loading', mode: 'direct' };
+
+    case 'LOADED':
+      if (action.attempt !== state.attempt || state.status !== 'loading') return state;
+      return { ...state, status: 'ready', message: '' };
+
+    case 'FAILED':
+      if (action.attempt !== state.attempt || (state.status !== 'resolving' && state.status !== 'loading')) return state;
+      if (state.sourceIndex < state.sourceCount - 1) {
+        return startSource(state, state.sourceIndex + 1, action.message);
+      }
+      return fail(state, 'All video sources failed to load. Please try again later.');
+
+    case 'NEXT_SOURCE':
+      if (state.status === 'idle') return state;
+      if (state.sourceCount === 0) return fail(state, NO_SOURCES_MESSAGE);
+      if (state.sourceIndex < state.sourceCount - 1) {
+        return startSource(state, state.sourceIndex + 1);
+      }
+      return fail(state, 'All sources have been tried.');
+
+    case 'RETRY':
+      if (state.status === 'idle') return state;
+      // Nothing to retry until the title has sources
+      if (state.sourceCount === 0) return fail(state, NO_SOURCES_MESSAGE);
+      return startSource(state, 0);
+
+    case 'PLAY':
+      return state.mode === 'direct' && ACTIVE_STATUSES.includes(state.status)
+        ? { ...state, status: 'playing' }
+        : state;
+
+    case 'PAUSE':
+      return state.mode === 'direct' && ACTIVE_STATUSES.includes(state.status)
+        ? { ...state, status: 'ready' }
+        : state;
+
+    case 'WAITING':
+      return state.mode === 'direct' && ACTIVE_STATUSES.includes(state.status)
+        ? { ...state, status: 'buffering' }
+        : state;
+
+    case 'CAN_PLAY':
+      return state.mode === 'direct' && state.status === 'buffering'
+        ? { ...state, status: action.paused ? 'ready' : 'playing' }
+        : state;
+
+    default:
+      return state;
+  }
+}
+
+export function isLoadingStatus(status: PlayerStatus): boolean {
+  return status === 'resolving' || status === 'loading';
+}
+
+/**
+ * Whether the streaming engine has media attached and the custom controls apply
+ */
+export function isDirectPlayback(state: PlayerState): boolean {
+  return state.mode === 'direct' && ACTIVE_STATUSES.includes(state.status);
+}
@@ -0,0 +1,40 @@
+import { QueryCache, QueryClient } from '@tanstack/react-query';
+import { handleSecureError } from '@/lib/error-handler';
+import { toast } from '@/hooks/use-toast';
+
+declare module '@tanstack/react-query' {
+  interface Register {
+    queryMeta: {
+      // Optional side data (previews, library lookups): fail without a toast
+      silent?: boolean;
+    };
+  }
+}
+
+/**
+ * Shared query client. Failed queries surface one toast through the secure
+ * error handler, so hooks and components don't each need their own try/catch.
+ * Queries whose data the page can do without opt out with `meta: { silent: true }`.
+ */
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      console.error('Query failed:', error);
+      if (query.meta?.silent) return;
+
+      toast({
+        title: "Error",
+        description: handleSecureError(error),
+        variant: "destructive",
+      });
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      // TMDB responses are already cached by tmdbCache, so keep refetches cheap and rare
+      staleTime: 5 * 60 * 1000,
+      retry: 1,
+      refetchOnWindowFocus: false,
+    },
+  },
+});
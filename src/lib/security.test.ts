@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { validateSortBy, validateTvSortBy } from '@/lib/security';
+
+describe('validateSortBy', () => {
+  it('passes allowed sorts through', () => {
+    expect(validateSortBy('popularity.desc')).toBe('popularity.desc');
+    expect(validateSortBy('title.asc')).toBe('title.asc');
+  });
+
+  it('rejects anything else', () => {
+    expect(validateSortBy('name.asc')).toBeNull();
+    expect(validateSortBy('popularity.desc&api_key=x')).toBeNull();
+    expect(validateSortBy(undefined)).toBeNull();
+  });
+});
+
+describe('validateTvSortBy', () => {
+  it('sorts on TV field names', () => {
+    expect(validateTvSortBy('title.asc')).toBe('name.asc');
+    expect(validateTvSortBy('title.desc')).toBe('name.desc');
+    expect(validateTvSortBy('release_date.desc')).toBe('first_air_date.desc');
+  });
+
+  it('keeps sorts shared with movies', () => {
+    expect(validateTvSortBy('popularity.desc')).toBe('popularity.desc');
+    expect(validateTvSortBy('vote_average.asc')).toBe('vote_average.asc');
+  });
+
+  it('rejects sorts movies would reject', () => {
+    expect(validateTvSortBy('name.asc')).toBeNull();
+    expect(validateTvSortBy('')).toBeNull();
+  });
+});
@@ -10,6 +10,17 @@ export function sanitizeHtml(dirty: string): string {
   });
 }
 
+/**
+ * Reduces possibly-marked-up text to plain text for React text nodes, which
+ * escape on render themselves. Unlike sanitizeHtml the result is not
+ * entity-escaped, so "Fast & Furious" stays as it is.
+ */
+export function toPlainText(dirty: string): string {
+  if (!/[<&]/.test(dirty)) return dirty;
+  // Parsed documents are inert: scripts don't run and resources aren't loaded
+  return new DOMParser().parseFromString(dirty, 'text/html').body.textContent ?? '';
+}
+
 /**
  * Validates and sanitizes search queries
  */
@@ -65,6 +76,8 @@ export function validateSortBy(sortBy: any): string | null {
     'vote_average.asc',
     'vote_count.desc',
     'vote_count.asc',
+    'title.asc',
+    'title.desc',
   ];
   
   if (!sortBy || !allowedSorts.includes(sortBy)) {
@@ -75,19 +88,17 @@ export function validateSortBy(sortBy: any): string | null {
 }
 
 /**
- * Sanitizes movie data from TMDB API
+ * Validates sort_by for TV discover, which names the date and title fields differently
  */
-export function sanitizeMovieData(movie: any): any {
-  if (!movie || typeof movie !== 'object') {
+export function validateTvSortBy(sortBy: unknown): string | null {
+  const validated = validateSortBy(sortBy);
+  if (!validated) {
     return null;
   }
 
-  return {
-    ...movie,
-    title: sanitizeHtml(movie.title || ''),
-    overview: sanitizeHtml(movie.overview || ''),
-    original_title: sanitizeHtml(movie.original_title || ''),
-  };
+  return validated
+    .replace(/^release_date\./, 'first_air_date.')
+    .replace(/^title\./, 'name.');
 }
 
 /**
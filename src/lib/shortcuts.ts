@@ -0,0 +1,138 @@
+/**
+ * Central keyboard shortcut registry. Components register groups of bindings
+ * while they are mounted; a single window listener dispatches each key press
+ * to the most recently registered group that binds it, and the help overlay
+ * lists every active group.
+ */
+
+export interface Shortcut {
+  // KeyboardEvent.key values; letters match either case, "Space" stands for " "
+  keys: string[];
+  description: string;
+  // Shown in the help overlay instead of the individual keys, e.g. "0–9"
+  label?: string;
+  handler: (event: KeyboardEvent) => void;
+  // Also fire while typing in a text field
+  allowInInput?: boolean;
+}
+
+export interface ShortcutGroup {
+  id: string;
+  title: string;
+  shortcuts: Shortcut[];
+  // Keys this group doesn't bind stop here instead of reaching the groups below,
+  // e.g. so the catalog behind the player ignores its shortcuts
+  exclusive?: boolean;
+  // Reachable even beneath an exclusive group
+  global?: boolean;
+}
+
+type Listener = () => void;
+
+// Focused widgets that handle every key themselves, Esc included
+const INTERACTIVE_ROLES = ['slider', 'listbox', 'option', 'menu', 'menuitem', 'combobox', 'spinbutton', 'tab'];
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  Escape: 'Esc',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+};
+
+function normalizeKey(key: string): string {
+  if (key === ' ' || key === 'Spacebar') return 'Space';
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) {
+    return !['button', 'checkbox', 'radio', 'range', 'reset', 'submit', 'file'].includes(target.type);
+  }
+  return false;
+}
+
+function isInteractiveTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && INTERACTIVE_ROLES.includes(target.getAttribute('role') || '');
+}
+
+/**
+ * Human-readable label for a key, e.g. "ArrowLeft" becomes "←"
+ */
+export function formatShortcutKey(key: string): string {
+  if (KEY_LABELS[key]) return KEY_LABELS[key];
+  return key.length === 1 ? key.toUpperCase() : key;
+}
+
+class ShortcutRegistry {
+  private groups: ShortcutGroup[] = [];
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): ShortcutGroup[] => this.groups;
+
+  /**
+   * Adds a group on top of the stack; returns a function that removes it
+   */
+  register(group: ShortcutGroup): () => void {
+    if (this.groups.length === 0) {
+      window.addEventListener('keydown', this.handleKeyDown);
+    }
+    this.groups = [...this.groups.filter(existing => existing.id !== group.id), group];
+    this.notify();
+
+    return () => {
+      if (!this.groups.includes(group)) return;
+      this.groups = this.groups.filter(existing => existing !== group);
+      if (this.groups.length === 0) {
+        window.removeEventListener('keydown', this.handleKeyDown);
+      }
+      this.notify();
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private findShortcut(key: string, typing: boolean): Shortcut | undefined {
+    let blocked = false;
+
+    for (let index = this.groups.length - 1; index >= 0; index--) {
+      const group = this.groups[index];
+      if (blocked && !group.global) continue;
+
+      const shortcut = group.shortcuts.find(candidate =>
+        candidate.keys.some(candidateKey => normalizeKey(candidateKey) === key) &&
+        (!typing || candidate.allowInInput)
+      );
+      if (shortcut) return shortcut;
+      if (group.exclusive) blocked = true;
+    }
+    return undefined;
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.ctrlKey || event.metaKey || event.altKey || event.isComposing) return;
+    if (isInteractiveTarget(event.target)) return;
+
+    const shortcut = this.findShortcut(normalizeKey(event.key), isTypingTarget(event.target));
+    if (!shortcut) return;
+
+    // Stops Space from also scrolling the page or clicking a focused button
+    event.preventDefault();
+    shortcut.handler(event);
+  };
+}
+
+export const shortcutRegistry = new ShortcutRegistry();
@@ -0,0 +1,357 @@
+import videojs from 'video.js';
+
+/**
+ * Adaptive streaming engine for the video player. video.js 8 bundles
+ * @videojs/http-streaming (VHS) and videojs-contrib-quality-levels, so HLS and
+ * DASH manifests play through Media Source Extensions in every browser and
+ * their renditions are exposed as quality levels. Only video.js's media
+ * pipeline is used; the UI stays the app's own React controls.
+ */
+
+export type StreamingPlayer = ReturnType<typeof videojs>;
+
+export type StreamType = 'hls' | 'dash' | 'progressive';
+
+export interface QualityLevel {
+  index: number;
+  label: string;
+  height: number;
+  width: number;
+  bandwidth: number;
+}
+
+// Rendition as exposed by videojs-contrib-quality-levels
+interface VhsQualityLevel {
+  id: string;
+  width: number;
+  height: number;
+  bitrate: number;
+  enabled: boolean;
+}
+
+interface VhsQualityLevelList {
+  length: number;
+  selectedIndex: number;
+  [index: number]: VhsQualityLevel;
+  on(event: string, listener: () => void): void;
+  off(event: string, listener: () => void): void;
+}
+
+const STREAM_MIME_TYPES: Record<Exclude<StreamType, 'progressive'>, string> = {
+  hls: 'application/x-mpegURL',
+  dash: 'application/dash+xml',
+};
+
+const LOAD_TIMEOUT = 10000;
+
+/**
+ * Works out the stream type from an explicit MIME type or the URL's extension
+ */
+export function getStreamType(url: string, mimeType?: string): StreamType {
+  const type = mimeType?.toLowerCase();
+  if (type) {
+    if (type.includes('mpegurl')) return 'hls';
+    if (type.includes('dash')) return 'dash';
+    return 'progressive';
+  }
+
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith('.m3u8')) return 'hls';
+  if (path.endsWith('.mpd')) return 'dash';
+  return 'progressive';
+}
+
+/**
+ * Creates a chrome-less video.js player inside the container. The container
+ * must not hold React-rendered children, since video.js owns its DOM.
+ */
+export function createStreamingPlayer(container: HTMLElement, { autoplay = false } = {}): StreamingPlayer {
+  const element = document.createElement('video');
+  element.setAttribute('playsinline', '');
+  container.appendChild(element);
+
+  return videojs(element, {
+    controls: false,
+    autoplay,
+    preload: 'auto',
+    // Only the media pipeline; every visible control is rendered by React
+    children: ['mediaLoader'],
+    html5: {
+      vhs: {
+        // Use VHS everywhere (except Safari, whose native HLS is better) so quality levels are available
+        overrideNative: !videojs.browser.IS_ANY_SAFARI,
+        limitRenditionByPlayerDimensions: true,
+        useDevicePixelRatio: true,
+      },
+      nativeAudioTracks: false,
+      nativeVideoTracks: false,
+    },
+  });
+}
+
+/**
+ * The underlying <video> element, which fires the usual media events
+ */
+export function getMediaElement(player: StreamingPlayer): HTMLVideoElement {
+  return player.tech(true).el() as HTMLVideoElement;
+}
+
+/**
+ * Loads a source and resolves once the first frame is available. Aborting the
+ * signal stops waiting and rejects with an AbortError.
+ */
+export function loadStream(player: StreamingPlayer, url: string, mimeType?: string, signal?: AbortSignal): Promise<void> {
+  const type = getStreamType(url, mimeType);
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Stream load aborted', 'AbortError'));
+      return;
+    }
+
+    const cleanup = () => {
+      clearTimeout(timeout);
+      player.off('loadeddata', onLoadedData);
+      player.off('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onLoadedData = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      const error = player.error();
+      cleanup();
+      reject(new Error(error?.message || `Failed to load ${type} stream`));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException('Stream load aborted', 'AbortError'));
+    };
+
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error('Video load timeout'));
+    }, LOAD_TIMEOUT);
+
+    player.on('loadeddata', onLoadedData);
+    player.on('error', onError);
+    signal?.addEventListener('abort', onAbort);
+    player.src(type === 'progressive'
+      ? { src: url, ...(mimeType && { type: mimeType }) }
+      : { src: url, type: STREAM_MIME_TYPES[type] });
+  });
+}
+
+function getQualityLevelList(player: StreamingPlayer): VhsQualityLevelList | null {
+  const plugin = (player as StreamingPlayer & { qualityLevels?: () => VhsQualityLevelList }).qualityLevels;
+  return plugin ? plugin.call(player) : null;
+}
+
+/**
+ * Renditions of the current stream, highest first. Empty for progressive sources.
+ */
+export function getQualityLevels(player: StreamingPlayer): QualityLevel[] {
+  const list = getQualityLevelList(player);
+  if (!list) return [];
+
+  const levels: QualityLevel[] = [];
+  for (let index = 0; index < list.length; index++) {
+    const level = list[index];
+    levels.push({
+      index,
+      label: level.height ? `${level.height}p` : `${Math.round(level.bitrate / 1000)} kbps`,
+      height: level.height || 0,
+      width: level.width || 0,
+      bandwidth: level.bitrate || 0,
+    });
+  }
+
+  // Tell renditions of the same height apart by bitrate
+  return levels
+    .sort((a, b) => b.height - a.height || b.bandwidth - a.bandwidth)
+    .map((level, _, all) => all.filter(other => other.label === level.label).length > 1
+      ? { ...level, label: `${level.label} (${Math.round(level.bandwidth / 1000)} kbps)` }
+      : level);
+}
+
+/**
+ * Index of the rendition currently playing, or -1 before one is picked
+ */
+export function getActiveQualityIndex(player: StreamingPlayer): number {
+  return getQualityLevelList(player)?.selectedIndex ?? -1;
+}
+
+/**
+ * Pins playback to one rendition, or hands control back to ABR with 'auto'
+ */
+export function setQualityLevel(player: StreamingPlayer, selection: number | 'auto'): void {
+  const list = getQualityLevelList(player);
+  if (!list) return;
+
+  for (let index = 0; index < list.length; index++) {
+    list[index].enabled = selection === 'auto' || index === selection;
+  }
+}
+
+/**
+ * Bitrate of the rendition currently playing, in bits per second
+ */
+export function getActiveBitrate(player: StreamingPlayer): number | null {
+  const list = getQualityLevelList(player);
+  const level = list && list.selectedIndex >= 0 ? list[list.selectedIndex] : null;
+  return level?.bitrate || null;
+}
+
+/**
+ * VHS's estimate of the network throughput, in bits per second. Null for
+ * progressive files and Safari's native HLS, which don't report one.
+ */
+export function getBandwidthEstimate(player: StreamingPlayer): number | null {
+  const vhs = (player.tech(true) as unknown as { vhs?: { systemBandwidth?: number; bandwidth?: number } }).vhs;
+  const estimate = vhs?.systemBandwidth || vhs?.bandwidth;
+  return estimate && isFinite(estimate) ? Math.round(estimate) : null;
+}
+
+/**
+ * Lets ABR pick any rendition up to `maxHeight` tall. The smallest rendition
+ * stays available when none fit.
+ */
+export function capQualityLevels(player: StreamingPlayer, maxHeight: number): void {
+  const list = getQualityLevelList(player);
+  if (!list || list.length === 0) return;
+
+  let smallest = 0;
+  let anyEnabled = false;
+  for (let index = 0; index < list.length; index++) {
+    const { height } = list[index];
+    // Renditions without a known height can't be judged, so leave them in
+    list[index].enabled = !height || height <= maxHeight;
+    anyEnabled = anyEnabled || list[index].enabled;
+    if (height < list[smallest].height) smallest = index;
+  }
+  if (!anyEnabled) list[smallest].enabled = true;
+}
+
+/**
+ * Subscribes to rendition list and selection changes; returns an unsubscribe function
+ */
+export function onQualityLevelsChange(player: StreamingPlayer, listener: () => void): () => void {
+  const list = getQualityLevelList(player);
+  if (!list) return () => {};
+
+  list.on('addqualitylevel', listener);
+  list.on('removequalitylevel', listener);
+  list.on('change', listener);
+
+  return () => {
+    list.off('addqualitylevel', listener);
+    list.off('removequalitylevel', listener);
+    list.off('change', listener);
+  };
+}
+
+export interface AudioTrackOption {
+  id: string;
+  label: string;
+  language: string;
+  // 'main', 'alternative', 'commentary', 'descriptions', ...
+  kind: string;
+  enabled: boolean;
+}
+
+// Structural view of a video.js or native audio track list
+interface PlayerAudioTrack {
+  id: string;
+  kind: string;
+  label: string;
+  language: string;
+  enabled: boolean;
+}
+
+interface AudioTrackListLike {
+  length: number;
+  [index: number]: PlayerAudioTrack;
+  addEventListener(type: string, listener: () => void): void;
+  removeEventListener(type: string, listener: () => void): void;
+}
+
+const AUDIO_KIND_LABELS: Record<string, string> = {
+  commentary: 'Commentary',
+  descriptions: 'Audio Description',
+  'main-desc': 'Audio Description',
+};
+
+function getLanguageName(language: string): string {
+  if (!language) return '';
+  try {
+    return new Intl.DisplayNames([navigator.language], { type: 'language' }).of(language) || language;
+  } catch {
+    return language;
+  }
+}
+
+// VHS exposes audio renditions through video.js; progressive files and
+// Safari's native HLS only have the browser's own list, where it exists
+function getAudioTrackLists(player: StreamingPlayer): AudioTrackListLike[] {
+  const lists = [player.audioTracks() as unknown as AudioTrackListLike];
+  const native = (getMediaElement(player) as HTMLVideoElement & { audioTracks?: AudioTrackListLike }).audioTracks;
+  if (native) lists.push(native);
+  return lists;
+}
+
+function getActiveAudioTrackList(player: StreamingPlayer): AudioTrackListLike | null {
+  return getAudioTrackLists(player).find(list => list.length > 0) ?? null;
+}
+
+/**
+ * Audio renditions of the current stream, labelled by language and kind
+ */
+export function getAudioTracks(player: StreamingPlayer): AudioTrackOption[] {
+  const list = getActiveAudioTrackList(player);
+  if (!list) return [];
+
+  const tracks: AudioTrackOption[] = [];
+  for (let index = 0; index < list.length; index++) {
+    const track = list[index];
+    const kindLabel = AUDIO_KIND_LABELS[track.kind];
+    let label = track.label || getLanguageName(track.language) || `Track ${index + 1}`;
+    if (kindLabel && !label.toLowerCase().includes(kindLabel.toLowerCase())) {
+      label = `${label} (${kindLabel})`;
+    }
+
+    tracks.push({
+      id: track.id || String(index),
+      label,
+      language: track.language,
+      kind: track.kind,
+      enabled: track.enabled,
+    });
+  }
+  return tracks;
+}
+
+/**
+ * Switches to another audio rendition without interrupting playback
+ */
+export function setAudioTrack(player: StreamingPlayer, id: string): void {
+  const list = getActiveAudioTrackList(player);
+  if (!list) return;
+
+  for (let index = 0; index < list.length; index++) {
+    list[index].enabled = (list[index].id || String(index)) === id;
+  }
+}
+
+/**
+ * Subscribes to audio track list and selection changes; returns an unsubscribe function
+ */
+export function onAudioTracksChange(player: StreamingPlayer, listener: () => void): () => void {
+  const lists = getAudioTrackLists(player);
+  const events = ['addtrack', 'removetrack', 'change'];
+
+  lists.forEach(list => events.forEach(event => list.addEventListener(event, listener)));
+  return () => {
+    lists.forEach(list => events.forEach(event => list.removeEventListener(event, listener)));
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { getLanguageFromFileName, srtToVtt } from '@/lib/subtitles';
+
+describe('srtToVtt', () => {
+  it('adds the header and switches timing commas to dots', () => {
+    const srt = [
+      '1',
+      '00:00:01,000 --> 00:00:04,500',
+      'Hello there.',
+      '',
+      '2',
+      '00:01:02,250 --> 00:01:05,000',
+      'General Kenobi!',
+    ].join('\n');
+
+    expect(srtToVtt(srt)).toBe([
+      'WEBVTT',
+      '',
+      '1',
+      '00:00:01.000 --> 00:00:04.500',
+      'Hello there.',
+      '',
+      '2',
+      '00:01:02.250 --> 00:01:05.000',
+      'General Kenobi!',
+      '',
+    ].join('\n'));
+  });
+
+  it('leaves timings that already use dots alone', () => {
+    expect(srtToVtt('1\n00:00:01.000 --> 00:00:02.000\nHi')).toContain('00:00:01.000 --> 00:00:02.000');
+  });
+
+  it('converts timings without hours', () => {
+    expect(srtToVtt('1\n01:02,500 --> 01:04,000\nHi')).toContain('01:02.500 --> 01:04.000');
+  });
+
+  it('keeps commas in cue text', () => {
+    expect(srtToVtt('1\n00:00:01,000 --> 00:00:02,000\nIt costs 1,000 dollars, 00:00:01,000 of them')).toContain(
+      '\nIt costs 1,000 dollars, 00:00:01,000 of them\n'
+    );
+  });
+
+  it('drops the byte order mark and normalizes line endings', () => {
+    const vtt = srtToVtt('\uFEFF1\r\n00:00:01,000 --> 00:00:02,000\r\nHi\r\n\r\n');
+
+    expect(vtt).toBe('WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.000\nHi\n');
+  });
+});
+
+describe('getLanguageFromFileName', () => {
+  it('reads the language before the extension', () => {
+    expect(getLanguageFromFileName('Movie.2019.en.srt')).toBe('en');
+    expect(getLanguageFromFileName('movie_fr.vtt')).toBe('fr');
+    expect(getLanguageFromFileName('Movie.de.forced.srt')).toBe('de');
+  });
+
+  it('returns nothing without one', () => {
+    expect(getLanguageFromFileName('Movie.2019.srt')).toBe('');
+  });
+});
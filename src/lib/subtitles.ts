@@ -0,0 +1,122 @@
+import { sanitizeHtml } from '@/lib/security';
+
+/**
+ * Subtitle helpers: SRT to WebVTT conversion, blob URLs for user files and
+ * offset-aware cue lookup. Cues are rendered by the app rather than the
+ * browser, so the styling panel and timing offset apply to every track type.
+ */
+
+export interface SidecarSubtitle {
+  url: string;
+  // ISO 639-1 code, e.g. "en"
+  language: string;
+  label?: string;
+}
+
+// Structural view of a video.js or native text track
+export interface PlayerTextTrack {
+  id: string;
+  kind: string;
+  label: string;
+  language: string;
+  mode: string;
+  cues: { length: number; [index: number]: { startTime: number; endTime: number; text: string } } | null;
+}
+
+export const SUBTITLE_FILE_TYPES = '.srt,.vtt';
+
+// Hours are optional, as some tools leave them out
+const SRT_TIMESTAMP = /((?:\d{1,2}:)?\d{2}:\d{2}),(\d{3})/g;
+
+export function isSrt(name: string): boolean {
+  return /\.srt$/i.test(name.split(/[?#]/)[0]);
+}
+
+/**
+ * Converts SubRip (.srt) text to WebVTT
+ */
+export function srtToVtt(srt: string): string {
+  const body = srt
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split('\n')
+    // Only timing lines change: "00:01:02,500 --> ..." becomes "00:01:02.500 --> ..."
+    .map(line => line.includes('-->') ? line.replace(SRT_TIMESTAMP, '$1.$2') : line)
+    .join('\n');
+
+  return `WEBVTT\n\n${body}\n`;
+}
+
+function toVttBlobUrl(text: string, fileName: string): string {
+  const vtt = isSrt(fileName) ? srtToVtt(text) : text;
+  return URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' }));
+}
+
+/**
+ * Reads a user-picked .srt or .vtt file into a WebVTT blob URL
+ */
+export async function fileToVttUrl(file: File): Promise<string> {
+  return toVttBlobUrl(await file.text(), file.name);
+}
+
+/**
+ * WebVTT sidecars load as-is; SRT sidecars are fetched and converted first.
+ * Returns the URL to attach and whether it is a blob URL to revoke later.
+ */
+export async function resolveSidecarUrl(sidecar: SidecarSubtitle, signal?: AbortSignal): Promise<{ url: string; isBlob: boolean }> {
+  if (!isSrt(sidecar.url)) {
+    return { url: sidecar.url, isBlob: false };
+  }
+
+  const response = await fetch(sidecar.url, { signal });
+  if (!response.ok) {
+    throw new Error(`Subtitle request failed: ${response.status}`);
+  }
+  return { url: toVttBlobUrl(await response.text(), sidecar.url), isBlob: true };
+}
+
+/**
+ * Guesses a language from names like "Movie.2019.en.srt" or "movie_fr.vtt"
+ */
+export function getLanguageFromFileName(name: string): string {
+  const match = name.toLowerCase().match(/[._-]([a-z]{2})(?:[._-](?:forced|sdh|cc))?\.(?:srt|vtt)$/);
+  return match ? match[1] : '';
+}
+
+export function isSubtitleTrack(track: PlayerTextTrack): boolean {
+  return track.kind === 'subtitles' || track.kind === 'captions';
+}
+
+/**
+ * Compares languages on their primary subtag, so "en" matches "en-GB"
+ */
+export function matchesLanguage(trackLanguage: string, language: string): boolean {
+  const primary = (value: string) => value.toLowerCase().split('-')[0];
+  return !!trackLanguage && !!language && primary(trackLanguage) === primary(language);
+}
+
+/**
+ * Cue text active at the given time. A positive offset delays subtitles.
+ */
+export function getActiveCueTexts(track: PlayerTextTrack, time: number, offset = 0): string[] {
+  const cues = track.cues;
+  if (!cues) return [];
+
+  const cueTime = time - offset;
+  const texts: string[] = [];
+  for (let index = 0; index < cues.length; index++) {
+    const cue = cues[index];
+    if (cue.startTime <= cueTime && cueTime < cue.endTime) {
+      texts.push(cue.text);
+    }
+  }
+  return texts;
+}
+
+/**
+ * Cue text as safe HTML: basic formatting survives, voice and class tags are dropped
+ */
+export function cueTextToHtml(text: string): string {
+  return sanitizeHtml(text).replace(/\n/g, '<br>');
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { findThumbnail, parseThumbnailVtt } from '@/lib/thumbnails';
+
+const TRACK_URL = 'https://cdn.example.com/thumbs/track.vtt';
+
+function vtt(...cues: string[]): string {
+  return ['WEBVTT', ...cues].join('\n\n');
+}
+
+describe('parseThumbnailVtt', () => {
+  it('reads sprite tiles relative to the track', () => {
+    const cues = parseThumbnailVtt(vtt(
+      '00:00:00.000 --> 00:00:10.000\nsprite-0.jpg#xywh=0,0,160,90',
+      '00:00:10.000 --> 00:00:20.000\nsprite-0.jpg#xywh=pixel:160,0,160,90',
+    ), TRACK_URL);
+
+    expect(cues).toEqual([
+      { start: 0, end: 10, url: 'https://cdn.example.com/thumbs/sprite-0.jpg', tile: { x: 0, y: 0, width: 160, height: 90 } },
+      { start: 10, end: 20, url: 'https://cdn.example.com/thumbs/sprite-0.jpg', tile: { x: 160, y: 0, width: 160, height: 90 } },
+    ]);
+  });
+
+  it('shows whole images when there is no fragment', () => {
+    const [cue] = parseThumbnailVtt(vtt('00:00:00.000 --> 00:00:05.000\n/images/frame-1.jpg'), TRACK_URL);
+
+    expect(cue).toMatchObject({ url: 'https://cdn.example.com/images/frame-1.jpg', tile: null });
+  });
+
+  it('reads hour-less and comma timestamps', () => {
+    const cues = parseThumbnailVtt(vtt(
+      '01:05.500 --> 01:10.000\na.jpg',
+      '00:01:10,000 --> 00:01:15,250\nb.jpg',
+    ), TRACK_URL);
+
+    expect(cues.map(({ start, end }) => [start, end])).toEqual([[65.5, 70], [70, 75.25]]);
+  });
+
+  it('handles a byte order mark and CRLF line endings', () => {
+    const text = '\uFEFFWEBVTT\r\n\r\n00:00:00.000 --> 00:00:05.000\r\na.jpg#xywh=0,0,10,10\r\n';
+
+    expect(parseThumbnailVtt(text, TRACK_URL)).toHaveLength(1);
+  });
+
+  it('drops cues with a malformed fragment', () => {
+    const cues = parseThumbnailVtt(vtt(
+      '00:00:00.000 --> 00:00:05.000\na.jpg#xywh=0,0,160',
+      '00:00:05.000 --> 00:00:10.000\na.jpg#xywh=percent:0,0,50,50',
+      '00:00:10.000 --> 00:00:15.000\na.jpg#xywh=0,90,160,90',
+    ), TRACK_URL);
+
+    expect(cues.map(cue => cue.start)).toEqual([10]);
+  });
+
+  it('drops images on other protocols', () => {
+    const cues = parseThumbnailVtt(vtt(
+      '00:00:00.000 --> 00:00:05.000\njavascript:alert(1)',
+      '00:00:05.000 --> 00:00:10.000\ndata:image/png;base64,AAAA',
+    ), TRACK_URL);
+
+    expect(cues).toEqual([]);
+  });
+
+  it('sorts cues by start time', () => {
+    const cues = parseThumbnailVtt(vtt(
+      '00:00:10.000 --> 00:00:20.000\nb.jpg',
+      '00:00:00.000 --> 00:00:10.000\na.jpg',
+    ), TRACK_URL);
+
+    expect(cues.map(cue => cue.start)).toEqual([0, 10]);
+  });
+});
+
+describe('findThumbnail', () => {
+  const cues = parseThumbnailVtt(vtt(
+    '00:00:00.000 --> 00:00:10.000\na.jpg',
+    '00:00:10.000 --> 00:00:20.000\nb.jpg',
+    '00:00:30.000 --> 00:00:40.000\nc.jpg',
+  ), TRACK_URL);
+
+  it('finds the cue covering a time', () => {
+    expect(findThumbnail(cues, 0)?.url).toMatch(/a\.jpg$/);
+    expect(findThumbnail(cues, 10)?.url).toMatch(/b\.jpg$/);
+    expect(findThumbnail(cues, 39.9)?.url).toMatch(/c\.jpg$/);
+  });
+
+  it('finds nothing in gaps or past the end', () => {
+    expect(findThumbnail(cues, 25)).toBeNull();
+    expect(findThumbnail(cues, 40)).toBeNull();
+    expect(findThumbnail([], 0)).toBeNull();
+  });
+});
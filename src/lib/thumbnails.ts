@@ -0,0 +1,88 @@
+import { logSecurityEvent } from '@/lib/error-handler';
+import { parseVttCues } from '@/lib/webvtt';
+
+/**
+ * Seek-bar previews from a WebVTT thumbnail track: each cue's text names an
+ * image, usually a tile in a sprite sheet given by a media fragment:
+ *
+ *   00:00:10.000 --> 00:00:20.000
+ *   sprite-0.jpg#xywh=160,0,160,90
+ */
+
+export interface ThumbnailCue {
+  start: number;
+  end: number;
+  url: string;
+  // Tile within the image; null when the cue shows the whole image
+  tile: { x: number; y: number; width: number; height: number } | null;
+}
+
+const XYWH = /#xywh=(?:pixel:)?(\d+),(\d+),(\d+),(\d+)$/;
+const ALLOWED_PROTOCOLS = ['https:', 'http:', 'blob:'];
+
+/**
+ * Parses a thumbnail track; image paths are resolved against the track's URL
+ */
+export function parseThumbnailVtt(text: string, baseUrl: string): ThumbnailCue[] {
+  return parseVttCues(text).flatMap((cue): ThumbnailCue[] => {
+    const payload = cue.text.split('\n')[0];
+    const fragment = payload.match(XYWH);
+    // Showing the whole sprite sheet for a tile we can't read would be worse than no preview
+    if (!fragment && payload.includes('#xywh=')) {
+      logSecurityEvent('thumbnail_fragment_rejected', { url: payload });
+      return [];
+    }
+
+    let url: URL;
+    try {
+      url = new URL(fragment ? payload.slice(0, fragment.index) : payload, baseUrl);
+    } catch {
+      return [];
+    }
+    if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+      logSecurityEvent('thumbnail_url_rejected', { url: payload });
+      return [];
+    }
+
+    return [{
+      start: cue.start,
+      end: cue.end,
+      url: url.toString(),
+      tile: fragment ? {
+        x: parseInt(fragment[1], 10),
+        y: parseInt(fragment[2], 10),
+        width: parseInt(fragment[3], 10),
+        height: parseInt(fragment[4], 10),
+      } : null,
+    }];
+  });
+}
+
+export async function loadThumbnailTrack(url: string, signal?: AbortSignal): Promise<ThumbnailCue[]> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Thumbnail track request failed: ${response.status}`);
+  }
+  return parseThumbnailVtt(await response.text(), response.url || url);
+}
+
+/**
+ * The cue covering `time`, by binary search over cues sorted by start time
+ */
+export function findThumbnail(cues: ThumbnailCue[], time: number): ThumbnailCue | null {
+  let low = 0;
+  let high = cues.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const cue = cues[mid];
+    if (time < cue.start) {
+      high = mid - 1;
+    } else if (time >= cue.end) {
+      low = mid + 1;
+    } else {
+      return cue;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,44 @@
+/**
+ * Minimal WebVTT cue reader for metadata tracks (thumbnails, chapters) that
+ * the app reads itself rather than handing to the streaming engine.
+ */
+
+export interface VttCue {
+  start: number;
+  end: number;
+  // Payload lines joined with "\n"
+  text: string;
+}
+
+// Some generators write SRT-style commas before the milliseconds
+const TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{3})/;
+
+export function parseVttTimestamp(timestamp: string): number {
+  return timestamp.replace(',', '.').split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+/**
+ * Cues in a WebVTT document, sorted by start time. Cues without a payload are skipped.
+ */
+export function parseVttCues(text: string): VttCue[] {
+  const cues: VttCue[] = [];
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').map(line => line.trim());
+    const timingIndex = lines.findIndex(line => TIMING.test(line));
+    if (timingIndex === -1) continue;
+
+    const timing = lines[timingIndex].match(TIMING);
+    const payload = lines.slice(timingIndex + 1).filter(Boolean).join('\n');
+    if (!payload) continue;
+
+    cues.push({
+      start: parseVttTimestamp(timing[1]),
+      end: parseVttTimestamp(timing[2]),
+      text: payload,
+    });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
@@ -1,5 +1,13 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { registerJellyfinProvider } from './services/jellyfin-provider'
+import { invalidatePlaybackSourcesOnChange } from './hooks/use-playback-sources'
+import { invalidateTmdbQueriesOnRevalidate } from './hooks/use-tmdb'
+import { queryClient } from './lib/query-client'
+
+invalidatePlaybackSourcesOnChange(queryClient);
+invalidateTmdbQueriesOnRevalidate(queryClient);
+registerJellyfinProvider();
 
 createRoot(document.getElementById("root")!).render(<App />);
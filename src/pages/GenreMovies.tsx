@@ -0,0 +1,51 @@
+import { useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import { Navbar } from '@/components/Navbar';
+import { MovieGrid } from '@/components/MovieGrid';
+import { validateId } from '@/lib/security';
+import { useMovieNavigation } from '@/hooks/use-movie-navigation';
+import { useGenres, useDiscoverMovies, flattenResults } from '@/hooks/use-tmdb';
+
+const GenreMovies = () => {
+  const { id } = useParams();
+  const genreId = validateId(id);
+  const { openMovie, playMovie } = useMovieNavigation();
+  const { data: genres = [] } = useGenres();
+  const genre = genres.find(g => g.id === genreId);
+
+  const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage } = useDiscoverMovies({
+    with_genres: genreId?.toString(),
+    sort_by: 'popularity.desc',
+    adult_filter: 'false',
+  }, !!genreId);
+  const movies = flattenResults(data);
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return (
+    <div className="min-h-screen">
+      <Navbar onSelectMovie={openMovie} />
+
+      <div className="container mx-auto px-4 pt-28">
+        <h1 className="text-3xl md:text-4xl font-bold">
+          {genre ? `${genre.name} Movies` : 'Movies'}
+        </h1>
+      </div>
+
+      <MovieGrid
+        movies={movies}
+        onMovieClick={openMovie}
+        onPlayMovie={playMovie}
+        onLoadMore={handleLoadMore}
+        hasMore={!!hasNextPage}
+        loading={isLoading || isFetchingNextPage}
+      />
+    </div>
+  );
+};
+
+export default GenreMovies;
@@ -0,0 +1,39 @@
+import { useMemo } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useLocalMediaSession } from '@/hooks/use-local-playback';
+import { usePlayerRoute } from '@/hooks/use-player-session';
+import { useMovieMatch } from '@/hooks/use-tmdb';
+import { localPlaybackService } from '@/services/local-playback';
+import { PlaybackSource } from '@/services/playback-sources';
+
+// Release the file once playback ends, including from the mini-player
+const releaseLocalFile = () => localPlaybackService.close();
+
+const LocalWatch = () => {
+  const session = useLocalMediaSession();
+  // Matching the file name to TMDB gives it a title, artwork and watch history
+  const { data: match } = useMovieMatch(session?.parsed.title ?? '', session?.parsed.year ?? null);
+
+  const sources = useMemo<PlaybackSource[]>(() => session ? [{
+    type: 'direct',
+    url: session.url,
+    name: session.fileName,
+    mimeType: session.mimeType,
+    subtitles: session.subtitles,
+  }] : [], [session]);
+
+  usePlayerRoute(session ? {
+    movieId: match?.id ?? 0,
+    movieTitle: match?.title || session.parsed.title,
+    movie: match ?? null,
+    sources,
+    onEnd: releaseLocalFile,
+  } : null);
+
+  // Object URLs don't survive a reload
+  if (!session) return <Navigate to="/" replace />;
+
+  return null;
+};
+
+export default LocalWatch;
@@ -0,0 +1,23 @@
+import { Suspense, lazy } from 'react';
+import { useMovieNavigation, useRouteMovie } from '@/hooks/use-movie-navigation';
+
+const MovieModal = lazy(() => import('@/components/MovieModal').then(m => ({ default: m.MovieModal })));
+
+const MovieDetails = () => {
+  const { movie } = useRouteMovie();
+  const { openMovie, playMovie, closeOverlay } = useMovieNavigation();
+
+  return (
+    <Suspense fallback={null}>
+      <MovieModal
+        movie={movie}
+        isOpen={!!movie}
+        onClose={closeOverlay}
+        onPlay={playMovie}
+        onSelectMovie={openMovie}
+      />
+    </Suspense>
+  );
+};
+
+export default MovieDetails;
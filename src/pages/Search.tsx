@@ -0,0 +1,48 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Navbar } from '@/components/Navbar';
+import { MovieGrid } from '@/components/MovieGrid';
+import { validateSearchQuery } from '@/lib/security';
+import { useMovieNavigation } from '@/hooks/use-movie-navigation';
+import { useSearch, useDiscoverMovies, flattenResults } from '@/hooks/use-tmdb';
+
+const Search = () => {
+  const [searchParams] = useSearchParams();
+  const query = validateSearchQuery(searchParams.get('q') || '');
+  const { openMovie, playMovie } = useMovieNavigation();
+
+  // Without a query the page doubles as a browse view of popular movies
+  const search = useSearch(query);
+  const browse = useDiscoverMovies({ sort_by: 'popularity.desc', adult_filter: 'false' }, !query);
+  const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage } = query ? search : browse;
+  const movies = flattenResults(data);
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return (
+    <div className="min-h-screen">
+      <Navbar onSelectMovie={openMovie} />
+
+      <div className="container mx-auto px-4 pt-28">
+        <h1 className="text-3xl md:text-4xl font-bold">
+          {query ? <>Results for &ldquo;{query}&rdquo;</> : 'Browse Movies'}
+        </h1>
+      </div>
+
+      <MovieGrid
+        movies={movies}
+        onMovieClick={openMovie}
+        onPlayMovie={playMovie}
+        onLoadMore={handleLoadMore}
+        hasMore={!!hasNextPage}
+        loading={isLoading || isFetchingNextPage}
+      />
+    </div>
+  );
+};
+
+export default Search;
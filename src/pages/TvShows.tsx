@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Navbar } from '@/components/Navbar';
+import { TvShowCard } from '@/components/TvShowCard';
+import { TvShowModal } from '@/components/TvShowModal';
+import { EnhancedButton } from '@/components/ui/enhanced-button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TvShow } from '@/services/tmdb';
+import { useTvGenres, useDiscoverTvShows, flattenResults } from '@/hooks/use-tmdb';
+
+const TvShows = () => {
+  const [selectedShow, setSelectedShow] = useState<TvShow | null>(null);
+  const [selectedGenre, setSelectedGenre] = useState('all');
+  const [selectedSort, setSelectedSort] = useState('popularity.desc');
+  const { data: genres = [] } = useTvGenres();
+  const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage } = useDiscoverTvShows({
+    with_genres: selectedGenre === 'all' ? '' : selectedGenre,
+    sort_by: selectedSort,
+  });
+  const shows = flattenResults(data);
+  const loading = isLoading || isFetchingNextPage;
+
+  return (
+    <div className="min-h-screen">
+      <Navbar onSelectMovie={setSelectedShow} searchType="tv" />
+
+      <section className="container mx-auto px-4 pt-28 pb-8 space-y-8">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <h1 className="text-3xl md:text-4xl font-bold">TV Series</h1>
+
+          <div className="grid grid-cols-2 gap-4 md:w-96">
+            <Select value={selectedGenre} onValueChange={setSelectedGenre}>
+              <SelectTrigger className="bg-card/50 border-border/50">
+                <SelectValue placeholder="All Genres" />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border max-h-60">
+                <SelectItem value="all">All Genres</SelectItem>
+                {genres.map((genre) => (
+                  <SelectItem key={genre.id} value={genre.id.toString()}>
+                    {genre.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={selectedSort} onValueChange={setSelectedSort}>
+              <SelectTrigger className="bg-card/50 border-border/50">
+                <SelectValue placeholder="Sort By" />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                <SelectItem value="popularity.desc">Most Popular</SelectItem>
+                <SelectItem value="vote_average.desc">Highest Rated</SelectItem>
+                <SelectItem value="release_date.desc">Latest Premiere</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 md:gap-6">
+          {shows.map((show) => (
+            <TvShowCard key={show.id} show={show} onClick={setSelectedShow} />
+          ))}
+        </div>
+
+        {loading && (
+          <div className="flex justify-center items-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        )}
+
+        {!loading && hasNextPage && (
+          <div className="flex justify-center">
+            <EnhancedButton
+              onClick={() => fetchNextPage()}
+              size="lg"
+              variant="premium"
+            >
+              Load More Series
+            </EnhancedButton>
+          </div>
+        )}
+      </section>
+
+      <TvShowModal
+        show={selectedShow}
+        isOpen={!!selectedShow}
+        onClose={() => setSelectedShow(null)}
+      />
+    </div>
+  );
+};
+
+export default TvShows;
@@ -0,0 +1,17 @@
+import { useRouteMovie } from '@/hooks/use-movie-navigation';
+import { usePlayerRoute } from '@/hooks/use-player-session';
+
+// The player itself is rendered by PersistentPlayer so it can outlive this route
+const Watch = () => {
+  const { movieId, movie } = useRouteMovie();
+
+  usePlayerRoute(movieId ? {
+    movieId,
+    movieTitle: movie?.title || '',
+    movie,
+  } : null);
+
+  return null;
+};
+
+export default Watch;
@@ -0,0 +1,64 @@
+import { useState, useMemo } from 'react';
+import { Bookmark } from 'lucide-react';
+import { Navbar } from '@/components/Navbar';
+import { MovieCard } from '@/components/MovieCard';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { sortWatchlist, WatchlistSort } from '@/services/watchlist';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { useMovieNavigation } from '@/hooks/use-movie-navigation';
+
+const Watchlist = () => {
+  const { items } = useWatchlist();
+  const [sort, setSort] = useState<WatchlistSort>('added');
+  const { openMovie, playMovie } = useMovieNavigation();
+
+  const sortedItems = useMemo(() => sortWatchlist(items, sort), [items, sort]);
+
+  return (
+    <div className="min-h-screen">
+      <Navbar onSelectMovie={openMovie} />
+
+      <section className="container mx-auto px-4 pt-28 pb-8 space-y-8">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <h1 className="text-3xl md:text-4xl font-bold">
+            My Watchlist <span className="text-muted-foreground text-xl">({items.length})</span>
+          </h1>
+
+          <div className="md:w-56">
+            <Select value={sort} onValueChange={(value) => setSort(value as WatchlistSort)}>
+              <SelectTrigger className="bg-card/50 border-border/50">
+                <SelectValue placeholder="Sort By" />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                <SelectItem value="added">Date Added</SelectItem>
+                <SelectItem value="rating">Highest Rated</SelectItem>
+                <SelectItem value="release">Release Date</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {sortedItems.length === 0 ? (
+          <div className="py-16 text-center">
+            <Bookmark className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-2xl font-semibold text-muted-foreground mb-2">Your watchlist is empty</h3>
+            <p className="text-muted-foreground">Save movies to watch later and they will show up here</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 md:gap-6">
+            {sortedItems.map((movie) => (
+              <MovieCard
+                key={movie.id}
+                movie={movie}
+                onClick={openMovie}
+                onPlay={playMovie}
+              />
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default Watchlist;
@@ -0,0 +1,25 @@
+import { PlaybackSource, PlaybackSourceProvider } from './playback-sources';
+
+// Public embed sites; the first two sometimes serve a playable stream directly
+const EMBED_SOURCES: Array<{ type: PlaybackSource['type']; name: string; url: (tmdbId: number) => string }> = [
+  { type: 'direct', name: 'VidSrc Direct', url: id => `https://vidsrc.to/embed/movie/${id}` },
+  { type: 'direct', name: 'MultiEmbed Direct', url: id => `https://multiembed.mov/directstream.php?video_id=${id}&tmdb=1` },
+  { type: 'embed', name: 'AutoEmbed', url: id => `https://autoembed.co/movie/tmdb/${id}` },
+  { type: 'embed', name: 'Smashy Stream', url: id => `https://player.smashy.stream/movie/${id}` },
+  { type: 'embed', name: 'Embed.su', url: id => `https://embed.su/embed/movie/${id}` },
+  { type: 'embed', name: 'VidSrc XYZ', url: id => `https://vidsrc.xyz/embed/movie?tmdb=${id}` },
+  { type: 'embed', name: '2Embed', url: id => `https://2embed.org/embed/movie?tmdb=${id}` },
+  { type: 'embed', name: '2Embed.to', url: id => `https://www.2embed.to/embed/tmdb/movie?id=${id}` },
+];
+
+export function createEmbedProvider(): PlaybackSourceProvider {
+  return {
+    id: 'embed',
+    name: 'Public embeds',
+    resolve: async (tmdbId) => EMBED_SOURCES.map(source => ({
+      type: source.type,
+      name: source.name,
+      url: source.url(tmdbId),
+    })),
+  };
+}
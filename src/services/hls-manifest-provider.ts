@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { logSecurityEvent } from '@/lib/error-handler';
+import { PlaybackSource, PlaybackSourceProvider } from './playback-sources';
+
+/**
+ * Provider for a self-hosted HLS origin. A JSON manifest maps TMDB ids to
+ * stream paths, relative to `baseUrl` (or the manifest itself):
+ *
+ *   {
+ *     "baseUrl": "https://media.example.com/library/",
+ *     "titles": {
+ *       "550": "fight-club/master.m3u8",
+ *       "603": {
+ *         "stream": "the-matrix/master.m3u8",
+ *         "subtitles": [{ "url": "the-matrix/en.vtt", "language": "en", "label": "English" }],
+ *         "thumbnails": "the-matrix/thumbnails.vtt",
+ *         "chapters": "the-matrix/chapters.json"
+ *       }
+ *     }
+ *   }
+ */
+
+interface HlsManifestProviderConfig {
+  id: string;
+  name: string;
+  manifestUrl: string;
+}
+
+const subtitleSchema = z.object({
+  url: z.string().min(1),
+  language: z.string().min(1),
+  label: z.string().optional(),
+});
+
+const titleSchema = z.union([
+  z.string().min(1),
+  z.object({
+    stream: z.string().min(1),
+    mimeType: z.string().optional(),
+    name: z.string().optional(),
+    subtitles: z.array(subtitleSchema).optional(),
+    thumbnails: z.string().min(1).optional(),
+    chapters: z.string().min(1).optional(),
+  }),
+]);
+
+const manifestSchema = z.object({
+  baseUrl: z.string().optional(),
+  titles: z.record(z.string(), titleSchema),
+});
+
+interface ManifestTitle {
+  stream: string;
+  mimeType?: string;
+  name?: string;
+  subtitles?: Array<{ url: string; language: string; label?: string }>;
+  thumbnails?: string;
+  chapters?: string;
+}
+
+interface Manifest {
+  baseUrl?: string;
+  titles: Record<string, string | ManifestTitle>;
+}
+
+// How long a fetched manifest is reused before checking for new titles
+const MANIFEST_TTL = 5 * 60 * 1000;
+
+const ALLOWED_PROTOCOLS = ['https:', 'http:'];
+
+/**
+ * Resolves a manifest path to an absolute URL, refusing anything that isn't http(s)
+ */
+function resolveUrl(path: string, base: string): string | null {
+  try {
+    const url = new URL(path, base);
+    if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+      logSecurityEvent('playback_url_rejected', { url: path });
+      return null;
+    }
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+export function createHlsManifestProvider({ id, name, manifestUrl }: HlsManifestProviderConfig): PlaybackSourceProvider {
+  const absoluteManifestUrl = new URL(manifestUrl, window.location.origin).toString();
+  let cached: { manifest: Manifest; fetchedAt: number } | null = null;
+
+  const getManifest = async (signal?: AbortSignal): Promise<Manifest> => {
+    if (cached && Date.now() - cached.fetchedAt < MANIFEST_TTL) {
+      return cached.manifest;
+    }
+
+    const response = await fetch(absoluteManifestUrl, { signal });
+    if (!response.ok) {
+      throw new Error(`Manifest request failed: ${response.status}`);
+    }
+
+    const result = manifestSchema.safeParse(await response.json());
+    if (!result.success) {
+      logSecurityEvent('playback_manifest_invalid', { provider: id, issues: result.error.issues.map(issue => issue.message) });
+      throw new Error(`Invalid manifest for provider "${id}"`);
+    }
+
+    cached = { manifest: result.data as Manifest, fetchedAt: Date.now() };
+    return cached.manifest;
+  };
+
+  return {
+    id,
+    name,
+    resolve: async (tmdbId, signal) => {
+      const manifest = await getManifest(signal);
+      const entry = manifest.titles[String(tmdbId)];
+      if (!entry) return [];
+
+      const title: ManifestTitle = typeof entry === 'string' ? { stream: entry } : entry;
+      const base = manifest.baseUrl ? new URL(manifest.baseUrl, absoluteManifestUrl).toString() : absoluteManifestUrl;
+      const url = resolveUrl(title.stream, base);
+      if (!url) return [];
+
+      const source: PlaybackSource = {
+        type: 'direct',
+        url,
+        name: title.name || name,
+        mimeType: title.mimeType,
+        subtitles: (title.subtitles || []).flatMap((subtitle) => {
+          const subtitleUrl = resolveUrl(subtitle.url, base);
+          return subtitleUrl ? [{ ...subtitle, url: subtitleUrl }] : [];
+        }),
+        thumbnails: title.thumbnails ? resolveUrl(title.thumbnails, base) ?? undefined : undefined,
+        chapters: title.chapters ? resolveUrl(title.chapters, base) ?? undefined : undefined,
+      };
+      return [source];
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { jellyfinService } from './jellyfin';
+import { PlaybackSourceProvider, playbackSourceRegistry } from './playback-sources';
+
+const JELLYFIN_PROVIDER_ID = 'jellyfin';
+
+const jellyfinProvider: PlaybackSourceProvider = {
+  id: JELLYFIN_PROVIDER_ID,
+  name: 'Jellyfin',
+  resolve: async (tmdbId, signal) => {
+    const connection = jellyfinService.getSnapshot();
+    if (!connection) return [];
+
+    const itemId = (await jellyfinService.getLibraryIndex()).get(tmdbId);
+    if (!itemId) return [];
+
+    const playback = await jellyfinService.getPlayback(itemId, signal);
+    return [{
+      type: 'direct',
+      url: playback.url,
+      name: `${connection.serverName} (Jellyfin)`,
+      mimeType: 'application/x-mpegURL',
+      subtitles: playback.subtitles,
+    }];
+  },
+};
+
+/**
+ * Puts the user's own library ahead of every other source while they are
+ * signed in to Jellyfin. Returns a function that stops following the connection.
+ */
+export function registerJellyfinProvider(): () => void {
+  const sync = () => {
+    if (jellyfinService.getSnapshot()) {
+      playbackSourceRegistry.register(jellyfinProvider, { first: true });
+    } else {
+      playbackSourceRegistry.unregister(JELLYFIN_PROVIDER_ID);
+    }
+  };
+
+  sync();
+  return jellyfinService.subscribe(sync);
+}
@@ -0,0 +1,270 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ValidationError } from '@/lib/error-handler';
+import { isMixedContent, jellyfinService, normalizeServerUrl } from '@/services/jellyfin';
+
+const SERVER = 'https://jellyfin.example.com';
+const TOKEN = 'token-123';
+const USER_ID = 'user-1';
+
+interface MockRequest {
+  method: string;
+  path: string;
+  params: URLSearchParams;
+  authorization: string;
+  body: unknown;
+}
+
+/**
+ * Stands in for a Jellyfin server: answers the endpoints the client uses and
+ * records every request so tests can check what was sent
+ */
+function createMockServer({ password = 'secret', items = [] as unknown[], tokenRevoked = false } = {}) {
+  const requests: MockRequest[] = [];
+
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  const fetchMock = vi.fn(async (input: string, init: RequestInit = {}) => {
+    const url = new URL(input);
+    const headers = (init.headers ?? {}) as Record<string, string>;
+    const request: MockRequest = {
+      method: init.method ?? 'GET',
+      path: url.pathname,
+      params: url.searchParams,
+      authorization: headers.Authorization ?? '',
+      body: init.body ? JSON.parse(init.body as string) : undefined,
+    };
+    requests.push(request);
+
+    if (url.origin !== SERVER) throw new TypeError('Failed to fetch');
+    const authorized = !tokenRevoked && request.authorization.includes(`Token="${TOKEN}"`);
+
+    switch (`${request.method} ${request.path}`) {
+      case 'GET /System/Info/Public':
+        return json({ ServerName: 'Home Server', Version: '10.9.0' });
+      case 'POST /Users/AuthenticateByName': {
+        const { Username, Pw } = request.body as { Username: string; Pw: string };
+        if (Username !== 'alice' || Pw !== password) return json({}, 401);
+        return json({ AccessToken: TOKEN, User: { Id: USER_ID, Name: 'Alice' } });
+      }
+      case `GET /Users/${USER_ID}/Items`:
+        return authorized ? json({ Items: items, TotalRecordCount: items.length }) : json({}, 401);
+      case `GET /Users/${USER_ID}/Items/movie-1`:
+        return authorized
+          ? json({
+            MediaSources: [{
+              Id: 'source-1',
+              MediaStreams: [
+                { Type: 'Video', Index: 0 },
+                { Type: 'Audio', Index: 1, Language: 'eng' },
+                { Type: 'Subtitle', Index: 2, Language: 'eng', DisplayTitle: 'English - SRT', IsTextSubtitleStream: true },
+                { Type: 'Subtitle', Index: 3, Language: 'ger', DisplayTitle: 'Deutsch', IsTextSubtitleStream: true },
+                { Type: 'Subtitle', Index: 4, Language: 'fre', DisplayTitle: 'Français - PGS', IsTextSubtitleStream: false },
+              ],
+            }],
+          })
+          : json({}, 401);
+      case 'POST /Sessions/Logout':
+        return new Response(null, { status: 204 });
+      default:
+        return json({}, 404);
+    }
+  });
+
+  return { requests, fetchMock };
+}
+
+function stubServer(options?: Parameters<typeof createMockServer>[0]) {
+  const server = createMockServer(options);
+  vi.stubGlobal('fetch', server.fetchMock);
+  return server;
+}
+
+async function signIn() {
+  return jellyfinService.signIn('jellyfin.example.com/', 'alice', 'secret');
+}
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+afterEach(async () => {
+  stubServer();
+  await jellyfinService.signOut();
+  vi.unstubAllGlobals();
+});
+
+describe('normalizeServerUrl', () => {
+  it('defaults public hosts to https and drops trailing slashes', () => {
+    expect(normalizeServerUrl(' jellyfin.example.com/jf// ')).toBe('https://jellyfin.example.com/jf');
+  });
+
+  it('defaults LAN hosts to http, where Jellyfin listens by default', () => {
+    expect(normalizeServerUrl('192.168.1.10:8096')).toBe('http://192.168.1.10:8096');
+    expect(normalizeServerUrl('nas.local:8096')).toBe('http://nas.local:8096');
+  });
+
+  it('accepts http on the local network', () => {
+    expect(normalizeServerUrl('http://10.0.0.5:8096')).toBe('http://10.0.0.5:8096');
+    expect(normalizeServerUrl('http://172.20.1.2:8096')).toBe('http://172.20.1.2:8096');
+    expect(normalizeServerUrl('http://localhost:8096')).toBe('http://localhost:8096');
+  });
+
+  it('rejects http for public hosts', () => {
+    expect(() => normalizeServerUrl('http://jellyfin.example.com')).toThrow(ValidationError);
+    expect(() => normalizeServerUrl('http://172.32.0.1')).toThrow(ValidationError);
+  });
+});
+
+describe('isMixedContent', () => {
+  it('flags LAN http servers called from an https page', () => {
+    expect(isMixedContent('http://192.168.1.10:8096', 'https:')).toBe(true);
+    expect(isMixedContent('http://192.168.1.10:8096', 'http:')).toBe(false);
+    expect(isMixedContent('https://jellyfin.example.com', 'https:')).toBe(false);
+  });
+
+  it('lets loopback servers through, which browsers treat as secure', () => {
+    expect(isMixedContent('http://localhost:8096', 'https:')).toBe(false);
+  });
+});
+
+describe('signIn', () => {
+  it('authenticates and stores the connection', async () => {
+    const { requests } = stubServer();
+
+    const connection = await signIn();
+
+    expect(connection).toMatchObject({
+      serverUrl: SERVER,
+      serverName: 'Home Server',
+      userId: USER_ID,
+      userName: 'Alice',
+      accessToken: TOKEN,
+    });
+    expect(jellyfinService.getSnapshot()).toEqual(connection);
+    expect(JSON.parse(localStorage.getItem('telly:jellyfin'))).toEqual(connection);
+
+    const auth = requests.find(request => request.path === '/Users/AuthenticateByName');
+    expect(auth.body).toEqual({ Username: 'alice', Pw: 'secret' });
+    expect(auth.authorization).toMatch(/^MediaBrowser Client="CloudStream", .*DeviceId="[^"]+"/);
+    expect(auth.authorization).not.toContain('Token=');
+  });
+
+  it('reuses the device id across sign-ins', async () => {
+    stubServer();
+    const first = await signIn();
+    await jellyfinService.signOut();
+    const second = await signIn();
+
+    expect(second.deviceId).toBe(first.deviceId);
+  });
+
+  it('reports a wrong password as a validation error', async () => {
+    stubServer({ password: 'something-else' });
+
+    await expect(signIn()).rejects.toThrow(ValidationError);
+    expect(jellyfinService.getSnapshot()).toBeNull();
+  });
+
+  it('fails when there is no server at the address', async () => {
+    stubServer();
+
+    await expect(jellyfinService.signIn('https://elsewhere.example.com', 'alice', 'secret')).rejects.toThrow();
+    expect(jellyfinService.getSnapshot()).toBeNull();
+  });
+
+  it('revokes the token on sign out', async () => {
+    const { requests } = stubServer();
+    await signIn();
+
+    await jellyfinService.signOut();
+
+    const logout = requests.find(request => request.path === '/Sessions/Logout');
+    expect(logout.authorization).toContain(`Token="${TOKEN}"`);
+    expect(jellyfinService.getSnapshot()).toBeNull();
+    expect(localStorage.getItem('telly:jellyfin')).toBeNull();
+  });
+});
+
+describe('getLibraryIndex', () => {
+  const items = [
+    { Id: 'movie-1', ProviderIds: { Tmdb: '603', Imdb: 'tt0133093' } },
+    { Id: 'movie-2', ProviderIds: { tmdb: '604' } },
+    { Id: 'movie-3', ProviderIds: { Imdb: 'tt0234215' } },
+    { Id: 'movie-4' },
+    { ProviderIds: { Tmdb: '605' } },
+  ];
+
+  it('maps TMDB ids to library items', async () => {
+    const { requests } = stubServer({ items });
+    await signIn();
+
+    const index = await jellyfinService.getLibraryIndex();
+
+    expect(Array.from(index.entries())).toEqual([[603, 'movie-1'], [604, 'movie-2']]);
+
+    const listing = requests.find(request => request.path === `/Users/${USER_ID}/Items`);
+    expect(listing.authorization).toContain(`Token="${TOKEN}"`);
+    expect(listing.params.get('IncludeItemTypes')).toBe('Movie');
+    expect(listing.params.get('Recursive')).toBe('true');
+    expect(listing.params.get('Fields')).toBe('ProviderIds');
+  });
+
+  it('reuses the listing until asked to refresh', async () => {
+    const { requests } = stubServer({ items });
+    await signIn();
+
+    await jellyfinService.getLibraryIndex();
+    await jellyfinService.getLibraryIndex();
+    await jellyfinService.getLibraryIndex(true);
+
+    expect(requests.filter(request => request.path === `/Users/${USER_ID}/Items`)).toHaveLength(2);
+  });
+
+  it('drops the connection when the token is rejected', async () => {
+    stubServer({ items, tokenRevoked: true });
+    await signIn();
+
+    await expect(jellyfinService.getLibraryIndex()).rejects.toThrow(/expired/);
+    expect(jellyfinService.getSnapshot()).toBeNull();
+  });
+});
+
+describe('getPlayback', () => {
+  it('builds the HLS stream URL for the item', async () => {
+    stubServer();
+    const connection = await signIn();
+
+    const { url } = await jellyfinService.getPlayback('movie-1');
+    const stream = new URL(url);
+
+    expect(`${stream.origin}${stream.pathname}`).toBe(`${SERVER}/Videos/movie-1/master.m3u8`);
+    expect(stream.searchParams.get('MediaSourceId')).toBe('source-1');
+    expect(stream.searchParams.get('DeviceId')).toBe(connection.deviceId);
+    expect(stream.searchParams.get('api_key')).toBe(TOKEN);
+    expect(stream.searchParams.get('SubtitleMethod')).toBe('External');
+  });
+
+  it('lists text subtitles as WebVTT tracks with ISO 639-1 languages', async () => {
+    stubServer();
+    await signIn();
+
+    const { subtitles } = await jellyfinService.getPlayback('movie-1');
+
+    expect(subtitles).toEqual([
+      {
+        url: `${SERVER}/Videos/movie-1/source-1/Subtitles/2/0/Stream.vtt?api_key=${TOKEN}`,
+        language: 'en',
+        label: 'English - SRT',
+      },
+      {
+        url: `${SERVER}/Videos/movie-1/source-1/Subtitles/3/0/Stream.vtt?api_key=${TOKEN}`,
+        language: 'de',
+        label: 'Deutsch',
+      },
+    ]);
+  });
+});
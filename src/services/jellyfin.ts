@@ -0,0 +1,368 @@
+import { z } from 'zod';
+import { ResponseValidationError, ValidationError } from '@/lib/error-handler';
+import { SidecarSubtitle } from '@/lib/subtitles';
+
+/**
+ * Jellyfin client: signs in with a username and password, keeps the access
+ * token in localStorage and maps library items to TMDB ids through the
+ * provider ids Jellyfin stores for each item.
+ */
+
+export interface JellyfinConnection {
+  serverUrl: string;
+  serverName: string;
+  userId: string;
+  userName: string;
+  accessToken: string;
+  deviceId: string;
+}
+
+export interface JellyfinPlayback {
+  url: string;
+  subtitles: SidecarSubtitle[];
+}
+
+interface JellyfinMediaStream {
+  Type: string;
+  Index: number;
+  Language?: string | null;
+  DisplayTitle?: string | null;
+  IsTextSubtitleStream?: boolean;
+}
+
+interface JellyfinItemDetails {
+  MediaSources: Array<{ Id: string; MediaStreams: JellyfinMediaStream[] }>;
+}
+
+const STORAGE_KEY = 'telly:jellyfin';
+const DEVICE_ID_KEY = 'telly:jellyfin-device';
+const CLIENT_NAME = 'CloudStream';
+const CLIENT_VERSION = '1.0.0';
+// The library listing is shared by every card and the player, so reuse it for a while
+const LIBRARY_TTL = 5 * 60 * 1000;
+
+const authResponseSchema = z.object({
+  AccessToken: z.string().min(1),
+  User: z.object({
+    Id: z.string().min(1),
+    Name: z.string(),
+  }),
+});
+
+const publicInfoSchema = z.object({
+  ServerName: z.string().catch('Jellyfin'),
+});
+
+const libraryItemSchema = z.object({
+  Id: z.string(),
+  ProviderIds: z.record(z.string(), z.string()).catch({}),
+});
+
+const libraryResponseSchema = z.object({
+  Items: z.array(z.unknown()),
+});
+
+const mediaStreamSchema = z.object({
+  Type: z.string(),
+  Index: z.number(),
+  Language: z.string().nullable().optional(),
+  DisplayTitle: z.string().nullable().optional(),
+  IsTextSubtitleStream: z.boolean().optional(),
+});
+
+const itemDetailsSchema = z.object({
+  MediaSources: z.array(z.object({
+    Id: z.string(),
+    MediaStreams: z.array(mediaStreamSchema).catch([]),
+  })).catch([]),
+});
+
+// Jellyfin reports ISO 639-2 codes; the player matches on ISO 639-1
+const LANGUAGE_CODES: Record<string, string> = {
+  eng: 'en', spa: 'es', fre: 'fr', fra: 'fr', ger: 'de', deu: 'de', ita: 'it', por: 'pt',
+  dut: 'nl', nld: 'nl', swe: 'sv', nor: 'no', dan: 'da', fin: 'fi', pol: 'pl', rus: 'ru',
+  jpn: 'ja', kor: 'ko', chi: 'zh', zho: 'zh', ara: 'ar', hin: 'hi', tur: 'tr', gre: 'el', ell: 'el',
+};
+
+type Listener = () => void;
+
+function toIso6391(language: string | null | undefined): string {
+  if (!language) return '';
+  const code = language.toLowerCase();
+  return LANGUAGE_CODES[code] || code;
+}
+
+// Hosts that only resolve inside the user's network, where servers rarely have certificates
+const PRIVATE_HOST = /^(localhost|127\.\d+\.\d+\.\d+|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(1[6-9]|2\d|3[01])\.\d+\.\d+|169\.254\.\d+\.\d+|\[::1\]|\[f[cd][0-9a-f]{2}:[0-9a-f:]*\]|[a-z0-9-]+\.local)$/i;
+// Browsers treat these as secure, so an https page may still call them over http
+const LOOPBACK_HOST = /^(localhost|127\.\d+\.\d+\.\d+|\[::1\])$/i;
+
+export function isPrivateNetworkHost(hostname: string): boolean {
+  return PRIVATE_HOST.test(hostname);
+}
+
+/**
+ * Normalizes a server address typed by the user and drops trailing slashes.
+ * Without a scheme, LAN addresses get http:// (Jellyfin's default) and
+ * everything else https://. Plain http is only accepted on the local network.
+ */
+export function normalizeServerUrl(input: string): string {
+  const trimmed = input.trim().replace(/\/+$/, '');
+  const host = trimmed.split(/[/:]/)[0];
+  const withScheme = /^https?:\/\//i.test(trimmed)
+    ? trimmed
+    : `${isPrivateNetworkHost(host) ? 'http' : 'https'}://${trimmed}`;
+
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    throw new ValidationError('Enter a valid server address', 'serverUrl');
+  }
+
+  if (url.protocol !== 'https:' && !isPrivateNetworkHost(url.hostname)) {
+    throw new ValidationError('The server must be reachable over HTTPS', 'serverUrl');
+  }
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+/**
+ * Whether the browser will block requests to the server as mixed content:
+ * an http server on the LAN, called from this site served over https
+ */
+export function isMixedContent(serverUrl: string, pageProtocol = window.location.protocol): boolean {
+  const url = new URL(serverUrl);
+  return pageProtocol === 'https:' && url.protocol === 'http:' && !LOOPBACK_HOST.test(url.hostname);
+}
+
+class JellyfinService {
+  private connection: JellyfinConnection | null = this.load();
+  private listeners = new Set<Listener>();
+  private library: { userId: string; index: Promise<Map<number, string>>; fetchedAt: number } | null = null;
+
+  private load(): JellyfinConnection | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error loading Jellyfin connection:', error);
+      return null;
+    }
+  }
+
+  private save(connection: JellyfinConnection | null): void {
+    this.connection = connection;
+    this.library = null;
+    this.listeners.forEach(listener => listener());
+
+    try {
+      if (connection) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(connection));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Error saving Jellyfin connection:', error);
+    }
+  }
+
+  private getDeviceId(): string {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+
+  private authorizationHeader(deviceId: string, token?: string): string {
+    const fields = [
+      `Client="${CLIENT_NAME}"`,
+      `Device="${navigator.userAgent.includes('Mobile') ? 'Mobile Browser' : 'Web Browser'}"`,
+      `DeviceId="${deviceId}"`,
+      `Version="${CLIENT_VERSION}"`,
+    ];
+    if (token) fields.push(`Token="${token}"`);
+    return `MediaBrowser ${fields.join(', ')}`;
+  }
+
+  private async request<T>(path: string, schema: z.ZodTypeAny, init: RequestInit = {}): Promise<T> {
+    const connection = this.connection;
+    if (!connection) {
+      throw new Error('Not connected to a Jellyfin server');
+    }
+
+    const response = await fetch(`${connection.serverUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: this.authorizationHeader(connection.deviceId, connection.accessToken),
+        ...init.headers,
+      },
+    });
+
+    // A revoked token won't start working again, so drop the connection
+    if (response.status === 401) {
+      this.save(null);
+      throw new Error('Jellyfin session expired. Please sign in again.');
+    }
+    if (!response.ok) {
+      throw new Error(`Jellyfin request failed: ${response.status}`);
+    }
+
+    const result = schema.safeParse(await response.json());
+    if (!result.success) {
+      throw new ResponseValidationError(`jellyfin:${path.split('?')[0]}`, result.error.issues.map(issue => issue.message));
+    }
+    return result.data as T;
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): JellyfinConnection | null => this.connection;
+
+  async signIn(serverInput: string, username: string, password: string): Promise<JellyfinConnection> {
+    const serverUrl = normalizeServerUrl(serverInput);
+    const deviceId = this.getDeviceId();
+
+    const infoResponse = await fetch(`${serverUrl}/System/Info/Public`);
+    if (!infoResponse.ok) {
+      throw new Error('No Jellyfin server found at that address');
+    }
+    const info = publicInfoSchema.parse(await infoResponse.json());
+
+    const response = await fetch(`${serverUrl}/Users/AuthenticateByName`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: this.authorizationHeader(deviceId),
+      },
+      body: JSON.stringify({ Username: username, Pw: password }),
+    });
+    if (response.status === 401) {
+      throw new ValidationError('Incorrect username or password', 'password');
+    }
+    if (!response.ok) {
+      throw new Error(`Jellyfin sign-in failed: ${response.status}`);
+    }
+
+    const auth = authResponseSchema.parse(await response.json());
+    const connection: JellyfinConnection = {
+      serverUrl,
+      serverName: info.ServerName,
+      userId: auth.User.Id,
+      userName: auth.User.Name,
+      accessToken: auth.AccessToken,
+      deviceId,
+    };
+    this.save(connection);
+    return connection;
+  }
+
+  async signOut(): Promise<void> {
+    const connection = this.connection;
+    this.save(null);
+    if (!connection) return;
+
+    // Best effort: revoke the token server-side
+    try {
+      await fetch(`${connection.serverUrl}/Sessions/Logout`, {
+        method: 'POST',
+        headers: { Authorization: this.authorizationHeader(connection.deviceId, connection.accessToken) },
+      });
+    } catch (error) {
+      console.error('Error signing out of Jellyfin:', error);
+    }
+  }
+
+  /**
+   * Every movie in the user's libraries that has a TMDB id, as TMDB id → item id.
+   * Cached briefly; pass `refresh` to re-read the library.
+   */
+  getLibraryIndex(refresh = false): Promise<Map<number, string>> {
+    const userId = this.connection?.userId;
+    const cached = this.library;
+    if (!refresh && cached && cached.userId === userId && Date.now() - cached.fetchedAt < LIBRARY_TTL) {
+      return cached.index;
+    }
+
+    const index = this.fetchLibraryIndex(userId);
+    this.library = { userId, index, fetchedAt: Date.now() };
+    // Don't keep a failed listing around
+    index.catch(() => {
+      if (this.library?.index === index) this.library = null;
+    });
+    return index;
+  }
+
+  private async fetchLibraryIndex(userId: string): Promise<Map<number, string>> {
+    const params = new URLSearchParams({
+      IncludeItemTypes: 'Movie',
+      Recursive: 'true',
+      Fields: 'ProviderIds',
+      HasTmdbId: 'true',
+      EnableImages: 'false',
+      EnableUserData: 'false',
+    });
+    const data = await this.request<{ Items: unknown[] }>(`/Users/${userId}/Items?${params}`, libraryResponseSchema);
+
+    const index = new Map<number, string>();
+    for (const value of data.Items) {
+      const item = libraryItemSchema.safeParse(value);
+      if (!item.success) continue;
+
+      // Jellyfin's provider id keys are case-insensitive in practice ("Tmdb", "tmdb")
+      const tmdbEntry = Object.entries(item.data.ProviderIds).find(([key]) => key.toLowerCase() === 'tmdb');
+      const tmdbId = tmdbEntry ? parseInt(tmdbEntry[1], 10) : NaN;
+      if (tmdbId > 0) index.set(tmdbId, item.data.Id);
+    }
+    return index;
+  }
+
+  /**
+   * HLS stream and text subtitle tracks for a library item
+   */
+  async getPlayback(itemId: string, signal?: AbortSignal): Promise<JellyfinPlayback> {
+    const connection = this.connection;
+    const details = await this.request<JellyfinItemDetails>(
+      `/Users/${connection?.userId}/Items/${itemId}`,
+      itemDetailsSchema,
+      { signal }
+    );
+
+    const mediaSource = details.MediaSources[0];
+    const mediaSourceId = mediaSource?.Id || itemId;
+    const token = encodeURIComponent(connection.accessToken);
+
+    const params = new URLSearchParams({
+      MediaSourceId: mediaSourceId,
+      DeviceId: connection.deviceId,
+      api_key: connection.accessToken,
+      VideoCodec: 'h264',
+      AudioCodec: 'aac,mp3',
+      SegmentContainer: 'ts',
+      // Subtitles are loaded as separate WebVTT tracks instead of burned in
+      SubtitleMethod: 'External',
+    });
+
+    const subtitles = (mediaSource?.MediaStreams ?? [])
+      .filter(stream => stream.Type === 'Subtitle' && stream.IsTextSubtitleStream)
+      .map((stream): SidecarSubtitle => ({
+        url: `${connection.serverUrl}/Videos/${itemId}/${mediaSourceId}/Subtitles/${stream.Index}/0/Stream.vtt?api_key=${token}`,
+        language: toIso6391(stream.Language),
+        label: stream.DisplayTitle || undefined,
+      }));
+
+    return {
+      url: `${connection.serverUrl}/Videos/${itemId}/master.m3u8?${params}`,
+      subtitles,
+    };
+  }
+}
+
+export const jellyfinService = new JellyfinService();
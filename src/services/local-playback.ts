@@ -0,0 +1,80 @@
+import { SidecarSubtitle, fileToVttUrl, getLanguageFromFileName } from '@/lib/subtitles';
+import { ParsedMediaName, parseMediaFileName, splitMediaFiles } from '@/lib/local-media';
+
+/**
+ * The local file currently open in the player. Files become object URLs
+ * (subtitles are converted to WebVTT first) which are revoked when another
+ * file is opened or playback ends.
+ */
+export interface LocalMediaSession {
+  fileName: string;
+  url: string;
+  mimeType: string;
+  subtitles: SidecarSubtitle[];
+  parsed: ParsedMediaName;
+}
+
+type Listener = () => void;
+
+/**
+ * The file's type if the browser vouches for it. Containers such as .mkv often
+ * hold codecs the browser can play anyway, so those are offered as MP4.
+ */
+function getPlayableType(file: File): string {
+  return file.type && document.createElement('video').canPlayType(file.type) ? file.type : 'video/mp4';
+}
+
+class LocalPlaybackService {
+  private session: LocalMediaSession | null = null;
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): LocalMediaSession | null => this.session;
+
+  /**
+   * Opens the first video among the files, with any subtitle files alongside it.
+   * Returns false when the files contain no video.
+   */
+  async open(files: File[]): Promise<boolean> {
+    const { video, subtitles } = splitMediaFiles(files);
+    if (!video) return false;
+
+    const subtitleTracks = await Promise.all(subtitles.map(async (file): Promise<SidecarSubtitle> => ({
+      url: await fileToVttUrl(file),
+      language: getLanguageFromFileName(file.name),
+      label: file.name,
+    })));
+
+    this.close();
+    this.session = {
+      fileName: video.name,
+      url: URL.createObjectURL(video),
+      mimeType: getPlayableType(video),
+      subtitles: subtitleTracks,
+      parsed: parseMediaFileName(video.name),
+    };
+    this.notify();
+    return true;
+  }
+
+  close(): void {
+    if (!this.session) return;
+
+    URL.revokeObjectURL(this.session.url);
+    this.session.subtitles.forEach(subtitle => URL.revokeObjectURL(subtitle.url));
+    this.session = null;
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const localPlaybackService = new LocalPlaybackService();
@@ -0,0 +1,112 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PLAYBACK_PREFERENCES } from '@/services/playback-preferences';
+
+const STORAGE_KEY = 'telly:playback-preferences';
+const LEGACY_SUBTITLE_KEY = 'telly:subtitle-preferences';
+const LEGACY_AUDIO_KEY = 'telly:audio-preferences';
+
+// The service reads storage when its module loads, so load a fresh copy after seeding it
+async function loadService() {
+  vi.resetModules();
+  const { playbackPreferencesService } = await import('@/services/playback-preferences');
+  return playbackPreferencesService;
+}
+
+function readStored() {
+  return JSON.parse(localStorage.getItem(STORAGE_KEY));
+}
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('playback preferences migration', () => {
+  it('starts from the defaults when nothing is stored', async () => {
+    const service = await loadService();
+
+    expect(service.getSnapshot()).toEqual(DEFAULT_PLAYBACK_PREFERENCES);
+    expect(readStored()).toEqual({ version: 1, preferences: DEFAULT_PLAYBACK_PREFERENCES });
+  });
+
+  it('moves the separately stored subtitle and audio preferences into the document', async () => {
+    localStorage.setItem(LEGACY_SUBTITLE_KEY, JSON.stringify({
+      language: 'fr',
+      fontSize: 150,
+      color: '#ffff00',
+      backgroundOpacity: 0.2,
+    }));
+    localStorage.setItem(LEGACY_AUDIO_KEY, JSON.stringify({
+      language: 'de',
+      nightMode: true,
+      dialogueBoost: false,
+    }));
+
+    const service = await loadService();
+
+    const expected = {
+      ...DEFAULT_PLAYBACK_PREFERENCES,
+      subtitles: { language: 'fr', fontSize: 150, color: '#ffff00', backgroundOpacity: 0.2 },
+      audio: { language: 'de', nightMode: true, dialogueBoost: false },
+    };
+    expect(service.getSnapshot()).toEqual(expected);
+    expect(readStored()).toEqual({ version: 1, preferences: expected });
+    expect(localStorage.getItem(LEGACY_SUBTITLE_KEY)).toBeNull();
+    expect(localStorage.getItem(LEGACY_AUDIO_KEY)).toBeNull();
+  });
+
+  it('fills in fields missing from legacy preferences', async () => {
+    localStorage.setItem(LEGACY_SUBTITLE_KEY, JSON.stringify({ language: 'es' }));
+
+    const service = await loadService();
+
+    expect(service.getSnapshot().subtitles).toEqual({ ...DEFAULT_PLAYBACK_PREFERENCES.subtitles, language: 'es' });
+    expect(service.getSnapshot().audio).toEqual(DEFAULT_PLAYBACK_PREFERENCES.audio);
+  });
+
+  it('replaces invalid values one field at a time', async () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      version: 1,
+      preferences: {
+        volume: 3,
+        muted: true,
+        playbackRate: 'fast',
+        maxQuality: 720,
+        subtitles: { language: 'it', fontSize: 1000, color: 'red' },
+        audio: null,
+      },
+    }));
+
+    const service = await loadService();
+
+    expect(service.getSnapshot()).toEqual({
+      ...DEFAULT_PLAYBACK_PREFERENCES,
+      muted: true,
+      maxQuality: 720,
+      subtitles: { ...DEFAULT_PLAYBACK_PREFERENCES.subtitles, language: 'it' },
+    });
+  });
+
+  it('leaves legacy keys alone once the document is current', async () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      version: 1,
+      preferences: { ...DEFAULT_PLAYBACK_PREFERENCES, volume: 0.5 },
+    }));
+    localStorage.setItem(LEGACY_AUDIO_KEY, JSON.stringify({ nightMode: true }));
+
+    const service = await loadService();
+
+    expect(service.getSnapshot().volume).toBe(0.5);
+    expect(service.getSnapshot().audio.nightMode).toBe(false);
+    expect(localStorage.getItem(LEGACY_AUDIO_KEY)).not.toBeNull();
+  });
+
+  it('falls back to the defaults when the stored document is unreadable', async () => {
+    localStorage.setItem(STORAGE_KEY, '{not json');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const service = await loadService();
+
+    expect(service.getSnapshot()).toEqual(DEFAULT_PLAYBACK_PREFERENCES);
+  });
+});
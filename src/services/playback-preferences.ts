@@ -0,0 +1,196 @@
+import { z } from 'zod';
+
+/**
+ * Player settings that carry over between sessions, stored as one versioned
+ * document. When the shape changes, bump PREFERENCES_VERSION and add a
+ * migration from the previous version so stored preferences are upgraded
+ * instead of being thrown away.
+ */
+
+export interface SubtitlePreferences {
+  // Preferred subtitle language (ISO 639-1), or null to keep subtitles off
+  language: string | null;
+  // Percentage of the default caption size
+  fontSize: number;
+  color: string;
+  // Opacity of the box behind the text, 0-1
+  backgroundOpacity: number;
+}
+
+export interface AudioPreferences {
+  // Language of the last audio track picked (ISO 639 code), or null for the stream's default
+  language: string | null;
+  // Dynamic range compression for quiet listening
+  nightMode: boolean;
+  dialogueBoost: boolean;
+}
+
+export interface PlaybackPreferences {
+  // 0-1
+  volume: number;
+  muted: boolean;
+  playbackRate: number;
+  // Tallest rendition adaptive streaming may pick, in pixels; null for no cap
+  maxQuality: number | null;
+  // Play the up-next movie after a countdown once the credits start
+  autoplayNext: boolean;
+  subtitles: SubtitlePreferences;
+  audio: AudioPreferences;
+}
+
+export const DEFAULT_SUBTITLE_PREFERENCES: SubtitlePreferences = {
+  language: null,
+  fontSize: 100,
+  color: '#ffffff',
+  backgroundOpacity: 0.6,
+};
+
+export const DEFAULT_AUDIO_PREFERENCES: AudioPreferences = {
+  language: null,
+  nightMode: false,
+  dialogueBoost: false,
+};
+
+export const DEFAULT_PLAYBACK_PREFERENCES: PlaybackPreferences = {
+  volume: 1,
+  muted: false,
+  playbackRate: 1,
+  maxQuality: null,
+  autoplayNext: true,
+  subtitles: DEFAULT_SUBTITLE_PREFERENCES,
+  audio: DEFAULT_AUDIO_PREFERENCES,
+};
+
+const STORAGE_KEY = 'telly:playback-preferences';
+const PREFERENCES_VERSION = 1;
+
+// Before version 1 subtitle and audio preferences were stored on their own
+const LEGACY_SUBTITLE_KEY = 'telly:subtitle-preferences';
+const LEGACY_AUDIO_KEY = 'telly:audio-preferences';
+
+type StoredValues = Record<string, unknown>;
+
+interface StoredPreferences {
+  version: number;
+  preferences: StoredValues;
+}
+
+function readLegacy(key: string): unknown {
+  const stored = localStorage.getItem(key);
+  return stored ? JSON.parse(stored) : undefined;
+}
+
+/**
+ * MIGRATIONS[n] upgrades a version n document to version n + 1
+ */
+const MIGRATIONS: Record<number, (preferences: StoredValues) => StoredValues> = {
+  0: (preferences) => ({
+    ...preferences,
+    subtitles: readLegacy(LEGACY_SUBTITLE_KEY),
+    audio: readLegacy(LEGACY_AUDIO_KEY),
+  }),
+};
+
+// Unknown or out-of-range values fall back to their defaults one by one
+const subtitlePreferencesSchema = z.object({
+  language: z.string().min(1).nullable().catch(DEFAULT_SUBTITLE_PREFERENCES.language),
+  fontSize: z.number().min(50).max(200).catch(DEFAULT_SUBTITLE_PREFERENCES.fontSize),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i).catch(DEFAULT_SUBTITLE_PREFERENCES.color),
+  backgroundOpacity: z.number().min(0).max(1).catch(DEFAULT_SUBTITLE_PREFERENCES.backgroundOpacity),
+});
+
+const audioPreferencesSchema = z.object({
+  language: z.string().min(1).nullable().catch(DEFAULT_AUDIO_PREFERENCES.language),
+  nightMode: z.boolean().catch(DEFAULT_AUDIO_PREFERENCES.nightMode),
+  dialogueBoost: z.boolean().catch(DEFAULT_AUDIO_PREFERENCES.dialogueBoost),
+});
+
+const preferencesSchema = z.object({
+  volume: z.number().min(0).max(1).catch(DEFAULT_PLAYBACK_PREFERENCES.volume),
+  muted: z.boolean().catch(DEFAULT_PLAYBACK_PREFERENCES.muted),
+  playbackRate: z.number().min(0.25).max(4).catch(DEFAULT_PLAYBACK_PREFERENCES.playbackRate),
+  maxQuality: z.number().int().positive().nullable().catch(DEFAULT_PLAYBACK_PREFERENCES.maxQuality),
+  autoplayNext: z.boolean().catch(DEFAULT_PLAYBACK_PREFERENCES.autoplayNext),
+  subtitles: z.preprocess(value => value ?? {}, subtitlePreferencesSchema).catch(DEFAULT_SUBTITLE_PREFERENCES),
+  audio: z.preprocess(value => value ?? {}, audioPreferencesSchema).catch(DEFAULT_AUDIO_PREFERENCES),
+});
+
+type Listener = () => void;
+
+class PlaybackPreferencesService {
+  private preferences: PlaybackPreferences = this.load();
+  private listeners = new Set<Listener>();
+
+  private load(): PlaybackPreferences {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const stored: StoredPreferences = raw ? JSON.parse(raw) : { version: 0, preferences: {} };
+
+      let { version, preferences } = stored;
+      const migrated = version < PREFERENCES_VERSION;
+      while (version < PREFERENCES_VERSION) {
+        preferences = MIGRATIONS[version](preferences);
+        version++;
+      }
+
+      const parsed = preferencesSchema.parse(preferences);
+      // Every field has a fallback, so the defaults never actually show through. Without
+      // strictNullChecks zod infers each field as optional, and this keeps the result typed.
+      const result: PlaybackPreferences = {
+        ...DEFAULT_PLAYBACK_PREFERENCES,
+        ...parsed,
+        subtitles: { ...DEFAULT_SUBTITLE_PREFERENCES, ...parsed.subtitles },
+        audio: { ...DEFAULT_AUDIO_PREFERENCES, ...parsed.audio },
+      };
+      if (migrated) {
+        this.save(result);
+        localStorage.removeItem(LEGACY_SUBTITLE_KEY);
+        localStorage.removeItem(LEGACY_AUDIO_KEY);
+      }
+      return result;
+    } catch (error) {
+      console.error('Error loading playback preferences:', error);
+      return DEFAULT_PLAYBACK_PREFERENCES;
+    }
+  }
+
+  private save(preferences: PlaybackPreferences): void {
+    try {
+      const stored: StoredPreferences = { version: PREFERENCES_VERSION, preferences: { ...preferences } };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving playback preferences:', error);
+    }
+  }
+
+  private set(preferences: PlaybackPreferences): void {
+    this.preferences = preferences;
+    this.listeners.forEach(listener => listener());
+    this.save(preferences);
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): PlaybackPreferences => this.preferences;
+
+  update(patch: Partial<Omit<PlaybackPreferences, 'subtitles' | 'audio'>>): void {
+    const changed = (Object.keys(patch) as Array<keyof typeof patch>).some(key => patch[key] !== this.preferences[key]);
+    if (!changed) return;
+    this.set({ ...this.preferences, ...patch });
+  }
+
+  updateSubtitles(patch: Partial<SubtitlePreferences>): void {
+    this.set({ ...this.preferences, subtitles: { ...this.preferences.subtitles, ...patch } });
+  }
+
+  updateAudio(patch: Partial<AudioPreferences>): void {
+    this.set({ ...this.preferences, audio: { ...this.preferences.audio, ...patch } });
+  }
+}
+
+export const playbackPreferencesService = new PlaybackPreferencesService();
@@ -0,0 +1,164 @@
+import { z } from 'zod';
+import { SidecarSubtitle } from '@/lib/subtitles';
+import { env } from '@/lib/env';
+import { logSecurityEvent } from '@/lib/error-handler';
+import { createEmbedProvider } from './embed-provider';
+import { createHlsManifestProvider } from './hls-manifest-provider';
+
+/**
+ * Where the player gets its streams from. Providers turn a TMDB id into
+ * playable sources; which providers are active (and in what order) comes from
+ * a runtime config file, so a deployment can point the player at its own
+ * library without a rebuild. Providers can also be registered from code.
+ */
+
+export interface PlaybackSource {
+  // 'direct' plays in the streaming engine (progressive, HLS or DASH); 'embed' is a page shown in an iframe
+  type: 'direct' | 'embed';
+  url: string;
+  // Shown while loading and in the source switcher
+  name: string;
+  mimeType?: string;
+  subtitles?: SidecarSubtitle[];
+  // WebVTT track of seek-bar preview images
+  thumbnails?: string;
+  // WebVTT chapters track or chapters JSON (see src/lib/chapters.ts)
+  chapters?: string;
+}
+
+export interface PlaybackSourceProvider {
+  id: string;
+  name: string;
+  // Sources for the title, best first; an empty list when the provider doesn't have it
+  resolve(tmdbId: number, signal?: AbortSignal): Promise<PlaybackSource[]>;
+}
+
+const providerConfigSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('embed'),
+  }),
+  z.object({
+    type: z.literal('hls-manifest'),
+    id: z.string().min(1),
+    name: z.string().min(1),
+    manifestUrl: z.string().min(1),
+  }),
+]);
+
+const playbackConfigSchema = z.object({
+  providers: z.array(providerConfigSchema),
+});
+
+export type PlaybackProviderConfig =
+  // The public embed sites the player has always used
+  | { type: 'embed' }
+  // A self-hosted HLS origin described by a JSON manifest
+  | { type: 'hls-manifest'; id: string; name: string; manifestUrl: string };
+
+// Used when no config file is deployed or it can't be read
+const DEFAULT_CONFIG: PlaybackProviderConfig[] = [{ type: 'embed' }];
+
+type Listener = () => void;
+
+function createProvider(config: PlaybackProviderConfig): PlaybackSourceProvider {
+  return config.type === 'hls-manifest'
+    ? createHlsManifestProvider(config)
+    : createEmbedProvider();
+}
+
+class PlaybackSourceRegistry {
+  private providers: PlaybackSourceProvider[] = [];
+  private listeners = new Set<Listener>();
+  private configPromise: Promise<void> | null = null;
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getProviders(): PlaybackSourceProvider[] {
+    return this.providers;
+  }
+
+  /**
+   * Adds a provider, replacing one with the same id. Providers are asked in
+   * order, so `first` puts it ahead of the configured ones.
+   */
+  register(provider: PlaybackSourceProvider, { first = false } = {}): void {
+    const others = this.providers.filter(existing => existing.id !== provider.id);
+    this.providers = first ? [provider, ...others] : [...others, provider];
+    this.notify();
+  }
+
+  unregister(id: string): void {
+    this.providers = this.providers.filter(provider => provider.id !== id);
+    this.notify();
+  }
+
+  /**
+   * Replaces the configured providers, e.g. from a settings screen
+   */
+  configure(configs: PlaybackProviderConfig[]): void {
+    this.providers = configs.map(createProvider);
+    this.notify();
+  }
+
+  /**
+   * Loads the runtime config once. A missing or invalid file falls back to the public embeds.
+   */
+  ensureConfigured(): Promise<void> {
+    if (!this.configPromise) {
+      this.configPromise = this.loadConfig().then((configs) => {
+        // Providers registered from code before the config arrived stay ahead of it
+        const registered = this.providers;
+        const configured = configs.map(createProvider).filter(provider => !registered.some(other => other.id === provider.id));
+        this.providers = [...registered, ...configured];
+        this.notify();
+      });
+    }
+    return this.configPromise;
+  }
+
+  private async loadConfig(): Promise<PlaybackProviderConfig[]> {
+    try {
+      const response = await fetch(env.PLAYBACK_CONFIG_URL, { cache: 'no-cache' });
+      if (!response.ok) return DEFAULT_CONFIG;
+
+      const result = playbackConfigSchema.safeParse(await response.json());
+      if (!result.success) {
+        logSecurityEvent('playback_config_invalid', { issues: result.error.issues.map(issue => issue.message) });
+        return DEFAULT_CONFIG;
+      }
+      return result.data.providers as PlaybackProviderConfig[];
+    } catch (error) {
+      console.error('Error loading playback config:', error);
+      return DEFAULT_CONFIG;
+    }
+  }
+
+  /**
+   * Sources from every provider, in provider order. A provider that fails is
+   * skipped so one unreachable server doesn't hide the others.
+   */
+  async resolve(tmdbId: number, signal?: AbortSignal): Promise<PlaybackSource[]> {
+    await this.ensureConfigured();
+
+    const providers = this.providers;
+    const results = await Promise.allSettled(providers.map(provider => provider.resolve(tmdbId, signal)));
+    return results.flatMap((result, index) => {
+      if (result.status === 'fulfilled') return result.value;
+      if (!signal?.aborted) {
+        console.error(`Playback provider "${providers[index].id}" failed:`, result.reason);
+      }
+      return [];
+    });
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const playbackSourceRegistry = new PlaybackSourceRegistry();
@@ -0,0 +1,84 @@
+import { Movie } from '@/services/tmdb';
+import { PlaybackSource } from '@/services/playback-sources';
+
+/**
+ * What the player is showing. The player lives outside the routes so it can
+ * shrink into the mini-player and keep playing while the user browses; the
+ * watch routes only open and close the session.
+ */
+export interface PlayerSession {
+  // Route of the full-screen player, used to expand the mini-player again
+  path: string;
+  movieId: number;
+  movieTitle: string;
+  movie: Movie | null;
+  // Play these instead of asking the playback providers
+  sources?: PlaybackSource[];
+  minimized: boolean;
+  // Releases whatever the session holds once it ends, e.g. a local file's object URLs
+  onEnd?: () => void;
+}
+
+export type PlayerSessionRequest = Omit<PlayerSession, 'minimized'>;
+
+type Listener = () => void;
+
+class PlayerSessionService {
+  private session: PlayerSession | null = null;
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): PlayerSession | null => this.session;
+
+  /**
+   * Shows a title full-screen. Opening the one already in the mini-player
+   * expands it rather than starting over.
+   */
+  open(request: PlayerSessionRequest): void {
+    const current = this.session;
+    if (current && current.path !== request.path) {
+      current.onEnd?.();
+    }
+
+    this.session = { ...request, minimized: false };
+    this.notify();
+  }
+
+  minimize(): void {
+    if (!this.session || this.session.minimized) return;
+
+    this.session = { ...this.session, minimized: true };
+    this.notify();
+  }
+
+  close(): void {
+    const current = this.session;
+    if (!current) return;
+
+    this.session = null;
+    current.onEnd?.();
+    this.notify();
+  }
+
+  /**
+   * Called when a watch route is left. Playback stops unless it was moved to
+   * the mini-player first.
+   */
+  leave(path: string): void {
+    if (this.session?.path === path && !this.session.minimized) {
+      this.close();
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const playerSessionService = new PlayerSessionService();
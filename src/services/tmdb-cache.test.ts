@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const idb = vi.hoisted(() => ({
+  idbGetAll: vi.fn(),
+  idbPut: vi.fn(),
+  idbDelete: vi.fn(),
+}));
+
+vi.mock('@/lib/idb', () => idb);
+
+const HOUR = 60 * 60 * 1000;
+// Past the ttl for movie details but well inside their maxAge
+const STALE_AGE = 2 * HOUR;
+
+// A fresh cache that starts out holding the given entries
+async function loadCache(stored: { endpoint: string; data: unknown; age: number }[] = []) {
+  idb.idbGetAll.mockResolvedValue(stored.map(({ endpoint, data, age }) => ({
+    key: endpoint,
+    endpoint,
+    data,
+    fetched_at: Date.now() - age,
+    version: 2,
+  })));
+
+  vi.resetModules();
+  const { tmdbCache } = await import('@/services/tmdb-cache');
+  return tmdbCache;
+}
+
+function deferred<T>() {
+  let resolve: (value: T) => void;
+  const promise = new Promise<T>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  idb.idbPut.mockResolvedValue(undefined);
+  idb.idbDelete.mockResolvedValue(undefined);
+});
+
+describe('tmdbCache', () => {
+  it('serves fresh entries without a request', async () => {
+    const cache = await loadCache([{ endpoint: '/movie/1', data: { id: 1 }, age: 0 }]);
+    const fetcher = vi.fn();
+
+    await expect(cache.get('/movie/1', {}, fetcher)).resolves.toEqual({ id: 1 });
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  describe('background revalidation', () => {
+    it('revalidates once and notifies once for concurrent stale reads', async () => {
+      const cache = await loadCache([{ endpoint: '/movie/1', data: { id: 1, title: 'Old' }, age: STALE_AGE }]);
+      const listener = vi.fn();
+      cache.subscribe(listener);
+      const response = deferred<unknown>();
+      const fetcher = vi.fn(() => response.promise);
+
+      const reads = await Promise.all([1, 2, 3].map(() => cache.get('/movie/1', {}, fetcher)));
+      expect(reads).toEqual([1, 2, 3].map(() => ({ id: 1, title: 'Old' })));
+
+      response.resolve({ id: 1, title: 'New' });
+      await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith('/movie/1');
+      await expect(cache.get('/movie/1', {}, fetcher)).resolves.toEqual({ id: 1, title: 'New' });
+    });
+
+    it("doesn't notify when the response is unchanged", async () => {
+      const cache = await loadCache([{ endpoint: '/movie/1', data: { id: 1 }, age: STALE_AGE }]);
+      const listener = vi.fn();
+      cache.subscribe(listener);
+      const fetcher = vi.fn(async () => ({ id: 1 }));
+
+      await cache.get('/movie/1', {}, fetcher);
+      await vi.waitFor(() => expect(idb.idbPut).toHaveBeenCalled());
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("doesn't notify for a first load", async () => {
+      const cache = await loadCache();
+      const listener = vi.fn();
+      cache.subscribe(listener);
+
+      await cache.get('/movie/1', {}, async () => ({ id: 1 }));
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('aborting', () => {
+    it('aborts the request once every caller has given up', async () => {
+      const cache = await loadCache();
+      let requestSignal: AbortSignal;
+      const fetcher = vi.fn((signal: AbortSignal) => {
+        requestSignal = signal;
+        return new Promise<unknown>(() => undefined);
+      });
+      const controller = new AbortController();
+
+      const read = cache.get('/movie/1', {}, fetcher, controller.signal);
+      await vi.waitFor(() => expect(fetcher).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(read).rejects.toThrow(/aborted/);
+      expect(requestSignal.aborted).toBe(true);
+    });
+
+    it('starts a new request for callers that arrive after an abort', async () => {
+      const cache = await loadCache();
+      // The abandoned request hasn't settled yet when the next caller arrives
+      const fetcher = vi.fn()
+        .mockReturnValueOnce(new Promise<unknown>(() => undefined))
+        .mockResolvedValueOnce({ id: 1 });
+      const controller = new AbortController();
+
+      const abandoned = cache.get('/movie/1', {}, fetcher, controller.signal);
+      await vi.waitFor(() => expect(fetcher).toHaveBeenCalled());
+      controller.abort();
+      await expect(abandoned).rejects.toThrow();
+
+      await expect(cache.get('/movie/1', {}, fetcher, new AbortController().signal)).resolves.toEqual({ id: 1 });
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+  });
+});
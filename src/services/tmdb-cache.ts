@@ -0,0 +1,217 @@
+import { idbGetAll, idbPut, idbDelete } from '@/lib/idb';
+
+/**
+ * Stale-while-revalidate cache for TMDB responses, mirrored to IndexedDB so
+ * a repeat visit can render from the previous session before the network answers.
+ */
+
+interface CacheEntry {
+  key: string;
+  endpoint: string;
+  data: unknown;
+  fetched_at: number;
+  version?: number;
+}
+
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  // Callers still waiting; the network request is aborted once all of them give up
+  waiters: number;
+}
+
+type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+// Told the endpoint whose stale data a background request just replaced
+type RevalidateListener = (endpoint: string) => void;
+
+interface CachePolicy {
+  // Served without a network request while younger than this
+  ttl: number;
+  // Served stale (and revalidated) until this age, refetched after
+  maxAge: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// First matching rule wins
+const CACHE_POLICIES: { pattern: RegExp; policy: CachePolicy }[] = [
+  { pattern: /^\/genre\//, policy: { ttl: 3 * DAY, maxAge: 30 * DAY } },
+  { pattern: /^\/configuration\//, policy: { ttl: 7 * DAY, maxAge: 30 * DAY } },
+  { pattern: /^\/search\//, policy: { ttl: 5 * MINUTE, maxAge: HOUR } },
+  { pattern: /^\/(movie|tv)\/\d+/, policy: { ttl: HOUR, maxAge: 7 * DAY } },
+];
+
+const DEFAULT_POLICY: CachePolicy = { ttl: 10 * MINUTE, maxAge: DAY };
+
+// Keep the persisted cache from growing without bound
+const MAX_ENTRIES = 300;
+// Don't hold requests hostage if IndexedDB is slow or blocked
+const HYDRATE_TIMEOUT = 1000;
+// Entries hold schema output; bump when that changes so older entries are dropped
+const CACHE_VERSION = 2;
+
+export function getCachePolicy(endpoint: string): CachePolicy {
+  return CACHE_POLICIES.find(rule => rule.pattern.test(endpoint))?.policy || DEFAULT_POLICY;
+}
+
+/**
+ * Builds a stable key from the endpoint and its params, ignoring empty values and param order
+ */
+export function getCacheKey(endpoint: string, params: Record<string, unknown> = {}): string {
+  const normalized = Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== null && params[key] !== '')
+    .sort()
+    .map(key => `${key}=${String(params[key])}`)
+    .join('&');
+
+  return normalized ? `${endpoint}?${normalized}` : endpoint;
+}
+
+class TMDBCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, InflightRequest>();
+  private listeners = new Set<RevalidateListener>();
+  private hydrated: Promise<void>;
+
+  constructor() {
+    this.hydrated = Promise.race([
+      this.hydrate(),
+      new Promise<void>(resolve => setTimeout(resolve, HYDRATE_TIMEOUT)),
+    ]);
+  }
+
+  private async hydrate(): Promise<void> {
+    try {
+      const stored = await idbGetAll<CacheEntry>('tmdb_cache');
+      const now = Date.now();
+
+      stored.forEach(entry => {
+        if (entry.version === CACHE_VERSION && now - entry.fetched_at < getCachePolicy(entry.endpoint).maxAge) {
+          this.entries.set(entry.key, entry);
+        } else {
+          idbDelete('tmdb_cache', entry.key).catch(() => undefined);
+        }
+      });
+
+      this.prune();
+    } catch (error) {
+      // Without IndexedDB the cache still works in memory for this session
+      console.error('Error loading TMDB cache:', error);
+    }
+  }
+
+  private prune() {
+    if (this.entries.size <= MAX_ENTRIES) return;
+
+    const oldest = Array.from(this.entries.values())
+      .sort((a, b) => a.fetched_at - b.fetched_at)
+      .slice(0, this.entries.size - MAX_ENTRIES);
+
+    oldest.forEach(entry => {
+      this.entries.delete(entry.key);
+      idbDelete('tmdb_cache', entry.key).catch(() => undefined);
+    });
+  }
+
+  /**
+   * Fetches and stores an entry. `stale` is data already handed out for it:
+   * when the response differs, subscribers hear about it once.
+   */
+  private revalidate<T>(key: string, endpoint: string, fetcher: Fetcher<T>, signal?: AbortSignal, stale?: CacheEntry): Promise<T> {
+    // Identical concurrent requests share one network call, unless every caller gave up on it
+    let request = this.inflight.get(key);
+
+    if (!request || request.controller.signal.aborted) {
+      const controller = new AbortController();
+      const promise = fetcher(controller.signal)
+        .then((data) => {
+          const entry: CacheEntry = { key, endpoint, data, fetched_at: Date.now(), version: CACHE_VERSION };
+          this.entries.set(key, entry);
+          this.prune();
+          idbPut('tmdb_cache', entry).catch(error => console.error('Error persisting TMDB cache:', error));
+
+          if (stale && JSON.stringify(data) !== JSON.stringify(stale.data)) {
+            this.listeners.forEach(listener => listener(endpoint));
+          }
+          return data;
+        })
+        .finally(() => {
+          if (this.inflight.get(key) === created) this.inflight.delete(key);
+        });
+
+      const created: InflightRequest = { promise, controller, waiters: 0 };
+      request = created;
+      this.inflight.set(key, request);
+    }
+
+    return this.attach(request, signal) as Promise<T>;
+  }
+
+  private attach(request: InflightRequest, signal?: AbortSignal): Promise<unknown> {
+    request.waiters++;
+
+    // Callers without a signal (e.g. background revalidation) never abort
+    if (!signal) return request.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        request.waiters--;
+        if (request.waiters === 0) {
+          request.controller.abort();
+        }
+        reject(new DOMException('The request was aborted', 'AbortError'));
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      request.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Follows background revalidations, so data already handed out as stale can be refreshed
+   */
+  subscribe = (listener: RevalidateListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Returns cached data when available. Fresh entries skip the network, stale
+   * ones are returned immediately while a background request refreshes them.
+   */
+  async get<T>(endpoint: string, params: Record<string, unknown>, fetcher: Fetcher<T>, signal?: AbortSignal): Promise<T> {
+    await this.hydrated;
+
+    const key = getCacheKey(endpoint, params);
+    const entry = this.entries.get(key);
+    const policy = getCachePolicy(endpoint);
+    const age = entry ? Date.now() - entry.fetched_at : Infinity;
+
+    if (entry && age < policy.ttl) {
+      return entry.data as T;
+    }
+
+    if (entry && age < policy.maxAge) {
+      this.revalidate(key, endpoint, fetcher, undefined, entry).catch(error => {
+        console.error('Background revalidation failed:', error);
+      });
+      return entry.data as T;
+    }
+
+    return this.revalidate(key, endpoint, fetcher, signal);
+  }
+}
+
+export const tmdbCache = new TMDBCache();
@@ -0,0 +1,257 @@
+import { z } from 'zod';
+import { toPlainText } from '@/lib/security';
+import { logSecurityEvent, ResponseValidationError } from '@/lib/error-handler';
+
+/**
+ * zod schemas for the TMDB payloads the app consumes. Cosmetic fields are
+ * repaired with a safe fallback (and display text is stripped to plain text
+ * on the way through); a list item missing its id is dropped. Anything structurally
+ * wrong with the payload itself surfaces as a ResponseValidationError.
+ */
+
+const id = z.number().int().positive();
+const text = z.string().catch('');
+const safeText = z.string().catch('').transform(toPlainText);
+const count = z.number().catch(0);
+const imagePath = z.string().nullable().catch(null);
+const nullableDate = z.string().nullable().catch(null);
+
+/**
+ * Array whose malformed items are dropped instead of failing the whole payload
+ */
+function lenientArray<T extends z.ZodTypeAny>(item: T, label: string) {
+  return z.array(z.unknown()).transform((items) =>
+    items.flatMap((value): z.output<T>[] => {
+      const result = item.safeParse(value);
+      if (result.success) return [result.data];
+      logSecurityEvent('tmdb_item_dropped', { label, issues: formatIssues(result.error) });
+      return [];
+    })
+  );
+}
+
+export const genreSchema = z.object({
+  id,
+  name: safeText,
+});
+
+export const genreListSchema = z.object({
+  genres: lenientArray(genreSchema, 'genre'),
+});
+
+export const languageSchema = z.object({
+  iso_639_1: z.string().min(2),
+  english_name: text,
+  name: text,
+});
+
+export const languageListSchema = lenientArray(languageSchema, 'language');
+
+export const movieSchema = z.object({
+  id,
+  title: safeText,
+  overview: safeText,
+  poster_path: imagePath,
+  backdrop_path: imagePath,
+  release_date: text,
+  vote_average: count,
+  vote_count: count,
+  popularity: count,
+  adult: z.boolean().catch(false),
+  original_language: text,
+  genre_ids: z.array(z.number()).catch([]),
+});
+
+export const castMemberSchema = z.object({
+  id,
+  name: safeText,
+  character: safeText,
+  profile_path: imagePath,
+  order: count,
+});
+
+export const crewMemberSchema = z.object({
+  id,
+  name: safeText,
+  job: text,
+  department: text,
+  profile_path: imagePath,
+});
+
+export const videoSchema = z.object({
+  id: z.string(),
+  key: z.string().min(1),
+  name: safeText,
+  site: text,
+  type: text,
+  official: z.boolean().catch(false),
+  published_at: text,
+  iso_639_1: text,
+});
+
+export const videoListSchema = z.object({
+  id: z.number().optional().catch(undefined),
+  results: lenientArray(videoSchema, 'video'),
+});
+
+export const imageAssetSchema = z.object({
+  file_path: z.string().min(1),
+  width: count,
+  height: count,
+  aspect_ratio: count,
+  iso_639_1: z.string().nullable().catch(null),
+  vote_average: count,
+});
+
+export const productionCompanySchema = z.object({
+  id,
+  name: safeText,
+  logo_path: imagePath,
+  origin_country: text,
+});
+
+export const countryReleaseDatesSchema = z.object({
+  iso_3166_1: z.string(),
+  release_dates: lenientArray(z.object({
+    certification: text,
+    type: count,
+    release_date: text,
+  }), 'release_date').catch([]),
+});
+
+export const keywordSchema = z.object({
+  id,
+  name: safeText,
+});
+
+const EMPTY_PAGE = { page: 1, results: [], total_pages: 0, total_results: 0 };
+
+export const movieDetailsSchema = movieSchema
+  .extend({
+    original_title: safeText,
+    tagline: safeText,
+    status: text,
+    runtime: z.number().nullable().catch(null),
+    imdb_id: z.string().nullable().catch(null),
+    genres: lenientArray(genreSchema, 'genre').catch([]),
+    budget: count,
+    revenue: count,
+    production_companies: lenientArray(productionCompanySchema, 'company').catch([]),
+    // append_to_response sub-resources; a missing one degrades to empty
+    credits: z.object({
+      cast: lenientArray(castMemberSchema, 'cast').catch([]),
+      crew: lenientArray(crewMemberSchema, 'crew').catch([]),
+    }).catch({ cast: [], crew: [] }),
+    videos: z.object({
+      results: lenientArray(videoSchema, 'video').catch([]),
+    }).catch({ results: [] }),
+    images: z.object({
+      backdrops: lenientArray(imageAssetSchema, 'backdrop').catch([]),
+      posters: lenientArray(imageAssetSchema, 'poster').catch([]),
+      logos: lenientArray(imageAssetSchema, 'logo').catch([]),
+    }).catch({ backdrops: [], posters: [], logos: [] }),
+    release_dates: z.object({
+      results: lenientArray(countryReleaseDatesSchema, 'release_dates').catch([]),
+    }).catch({ results: [] }),
+    keywords: z.object({
+      keywords: lenientArray(keywordSchema, 'keyword').catch([]),
+    }).catch({ keywords: [] }),
+    recommendations: tmdbResponseSchema(movieSchema, 'recommendation').catch(EMPTY_PAGE),
+    similar: tmdbResponseSchema(movieSchema, 'similar').catch(EMPTY_PAGE),
+  })
+  // Detail payloads list genres instead of genre_ids; keep both populated
+  .transform((movie) => ({
+    ...movie,
+    genre_ids: movie.genre_ids.length > 0 ? movie.genre_ids : movie.genres.map(genre => genre.id),
+  }));
+
+export const tvShowSchema = z.object({
+  id,
+  name: safeText,
+  original_name: safeText,
+  overview: safeText,
+  poster_path: imagePath,
+  backdrop_path: imagePath,
+  first_air_date: text,
+  vote_average: count,
+  vote_count: count,
+  popularity: count,
+  adult: z.boolean().optional().catch(undefined),
+  original_language: text,
+  origin_country: z.array(z.string()).catch([]),
+  genre_ids: z.array(z.number()).catch([]),
+});
+
+export const episodeSchema = z.object({
+  id,
+  name: safeText,
+  overview: safeText,
+  episode_number: z.number().int().nonnegative(),
+  season_number: z.number().int().nonnegative(),
+  air_date: nullableDate,
+  still_path: imagePath,
+  runtime: z.number().nullable().catch(null),
+  vote_average: count,
+});
+
+export const seasonSchema = z.object({
+  id,
+  name: safeText,
+  overview: safeText,
+  season_number: z.number().int().nonnegative(),
+  episode_count: z.number().optional().catch(undefined),
+  air_date: nullableDate,
+  poster_path: imagePath,
+  episodes: lenientArray(episodeSchema, 'episode').optional().catch(undefined),
+});
+
+export const tvShowDetailsSchema = tvShowSchema.omit({ genre_ids: true }).extend({
+  genres: lenientArray(genreSchema, 'genre').catch([]),
+  number_of_seasons: count,
+  number_of_episodes: count,
+  episode_run_time: z.array(z.number()).catch([]),
+  status: text,
+  tagline: safeText,
+  seasons: lenientArray(seasonSchema, 'season').catch([]),
+});
+
+/**
+ * Paged list response (discover, search, popular, ...)
+ */
+export function tmdbResponseSchema<T extends z.ZodTypeAny>(item: T, label: string) {
+  return z.object({
+    page: z.number().int().positive().catch(1),
+    results: lenientArray(item, label),
+    // Without a usable page count, treat the current page as the last one
+    total_pages: z.number().int().nonnegative().catch(0),
+    total_results: count,
+  });
+}
+
+export const movieListSchema = tmdbResponseSchema(movieSchema, 'movie');
+export const tvShowListSchema = tmdbResponseSchema(tvShowSchema, 'tv');
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+type Complete<T> = T extends (infer Item)[]
+  ? Complete<Item>[]
+  : T extends object ? { [K in keyof T]-?: Complete<T[K]> } : T;
+
+/**
+ * Output of a schema. Without strictNullChecks zod infers every field as optional,
+ * but each one has a fallback, so they're marked required again.
+ */
+export type TMDBPayload<T extends z.ZodTypeAny> = Complete<z.output<T>>;
+
+/**
+ * Parses a raw TMDB payload, throwing ResponseValidationError on schema drift
+ */
+export function parseTMDBPayload<T extends z.ZodTypeAny>(schema: T, data: unknown, endpoint: string): TMDBPayload<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ResponseValidationError(endpoint, formatIssues(result.error));
+  }
+  return result.data;
+}
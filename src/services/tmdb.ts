@@ -1,9 +1,23 @@
-import { validateSearchQuery, validateId, validateYear, validateSortBy, sanitizeMovieData, RateLimiter } from '@/lib/security';
-import { env } from '@/lib/env';
+import { z } from 'zod';
+import { validateSearchQuery, validateId, validateYear, validateSortBy, validateTvSortBy, RateLimiter } from '@/lib/security';
+import { getApiBaseUrl } from '@/services/proxy';
+import { tmdbCache } from '@/services/tmdb-cache';
+import { RateLimitError } from '@/lib/error-handler';
+import {
+  genreListSchema,
+  languageListSchema,
+  movieListSchema,
+  movieDetailsSchema,
+  tvShowListSchema,
+  tvShowDetailsSchema,
+  seasonSchema,
+  videoListSchema,
+  parseTMDBPayload,
+  TMDBPayload,
+} from '@/services/tmdb-schemas';
 
-// Use environment variable for API key security
-const API_KEY = env.TMDB_API_KEY;
-const BASE_URL = 'https://api.themoviedb.org/3';
+// Requests go through the same-origin /tmdb proxy, which adds the API key server-side
+const BASE_URL = getApiBaseUrl();
 
 // Rate limiter to prevent API abuse
 const rateLimiter = new RateLimiter(100, 60000);
@@ -12,8 +26,8 @@ export interface Movie {
   id: number;
   title: string;
   overview: string;
-  poster_path: string;
-  backdrop_path: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
   release_date: string;
   vote_average: number;
   vote_count: number;
@@ -23,11 +37,219 @@ export interface Movie {
   genre_ids: number[];
 }
 
+export interface CastMember {
+  id: number;
+  name: string;
+  character: string;
+  profile_path: string | null;
+  order: number;
+}
+
+export interface CrewMember {
+  id: number;
+  name: string;
+  job: string;
+  department: string;
+  profile_path: string | null;
+}
+
+export interface Video {
+  id: string;
+  key: string;
+  name: string;
+  site: string;
+  type: string;
+  official: boolean;
+  published_at: string;
+  iso_639_1: string;
+}
+
+export interface ImageAsset {
+  file_path: string;
+  width: number;
+  height: number;
+  aspect_ratio: number;
+  iso_639_1: string | null;
+  vote_average: number;
+}
+
+export interface ProductionCompany {
+  id: number;
+  name: string;
+  logo_path: string | null;
+  origin_country: string;
+}
+
+export interface ReleaseDate {
+  certification: string;
+  type: number;
+  release_date: string;
+}
+
+export interface CountryReleaseDates {
+  iso_3166_1: string;
+  release_dates: ReleaseDate[];
+}
+
+export interface Keyword {
+  id: number;
+  name: string;
+}
+
+export interface MovieDetails extends Movie {
+  original_title: string;
+  tagline: string;
+  status: string;
+  runtime: number | null;
+  imdb_id: string | null;
+  genres: Genre[];
+  budget: number;
+  revenue: number;
+  production_companies: ProductionCompany[];
+  // Sub-resources requested through append_to_response
+  credits: { cast: CastMember[]; crew: CrewMember[] };
+  videos: { results: Video[] };
+  images: { backdrops: ImageAsset[]; posters: ImageAsset[]; logos: ImageAsset[] };
+  release_dates: { results: CountryReleaseDates[] };
+  keywords: { keywords: Keyword[] };
+  recommendations: TMDBResponse<Movie>;
+  similar: TMDBResponse<Movie>;
+}
+
+// Video types worth previewing, best first; anything else is left out
+const PREVIEW_VIDEO_TYPES = ['Trailer', 'Teaser', 'Clip'];
+
+// Only YouTube videos can be embedded (see frame-src in vercel.json)
+const EMBEDDABLE_VIDEO_SITES = ['YouTube'];
+
+/**
+ * The user's preferred ISO 639-1 language, e.g. "de" for "de-AT"
+ */
+function getPreferredLanguage(): string {
+  return (typeof navigator !== 'undefined' ? navigator.language : 'en').split('-')[0].toLowerCase() || 'en';
+}
+
+/**
+ * Orders embeddable previews: trailers, then teasers, then clips; within each
+ * type the preferred language, then English, then official uploads, then the newest.
+ */
+export function rankVideos(videos: Video[], language = getPreferredLanguage()): Video[] {
+  const languageRank = (video: Video) => {
+    if (video.iso_639_1 === language) return 0;
+    if (video.iso_639_1 === 'en') return 1;
+    return 2;
+  };
+
+  return videos
+    .filter(video => EMBEDDABLE_VIDEO_SITES.includes(video.site) && PREVIEW_VIDEO_TYPES.includes(video.type))
+    .sort((a, b) =>
+      PREVIEW_VIDEO_TYPES.indexOf(a.type) - PREVIEW_VIDEO_TYPES.indexOf(b.type) ||
+      languageRank(a) - languageRank(b) ||
+      Number(b.official) - Number(a.official) ||
+      b.published_at.localeCompare(a.published_at)
+    );
+}
+
+const MOVIE_DETAIL_APPENDS = ['credits', 'videos', 'images', 'release_dates', 'keywords', 'recommendations', 'similar'];
+
+// TMDB release types, in the order their certification is preferred
+const CERTIFICATION_RELEASE_TYPES = [3, 4, 2, 5, 6, 1];
+
+/**
+ * Picks the age certification for a region, preferring the theatrical release
+ */
+export function getCertification(movie: MovieDetails, region = 'US'): string | null {
+  const country = movie.release_dates.results.find(entry => entry.iso_3166_1 === region);
+  if (!country) return null;
+
+  for (const type of CERTIFICATION_RELEASE_TYPES) {
+    const release = country.release_dates.find(date => date.type === type && date.certification);
+    if (release) return release.certification;
+  }
+  return null;
+}
+
+/**
+ * Copies only the Movie fields, e.g. before persisting a richer payload
+ */
+export function toMovieSnapshot(movie: Movie): Movie {
+  return {
+    id: movie.id,
+    title: movie.title,
+    overview: movie.overview,
+    poster_path: movie.poster_path,
+    backdrop_path: movie.backdrop_path,
+    release_date: movie.release_date,
+    vote_average: movie.vote_average,
+    vote_count: movie.vote_count,
+    popularity: movie.popularity,
+    adult: movie.adult,
+    original_language: movie.original_language,
+    genre_ids: movie.genre_ids || [],
+  };
+}
+
 export interface Genre {
   id: number;
   name: string;
 }
 
+export interface TvShow {
+  id: number;
+  name: string;
+  original_name: string;
+  overview: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  first_air_date: string;
+  vote_average: number;
+  vote_count: number;
+  popularity: number;
+  adult?: boolean;
+  original_language: string;
+  origin_country: string[];
+  genre_ids: number[];
+}
+
+export interface Episode {
+  id: number;
+  name: string;
+  overview: string;
+  episode_number: number;
+  season_number: number;
+  air_date: string | null;
+  still_path: string | null;
+  runtime: number | null;
+  vote_average: number;
+}
+
+export interface Season {
+  id: number;
+  name: string;
+  overview: string;
+  season_number: number;
+  episode_count?: number;
+  air_date: string | null;
+  poster_path: string | null;
+  episodes?: Episode[];
+}
+
+export interface TvShowDetails extends Omit<TvShow, 'genre_ids'> {
+  genres: Genre[];
+  number_of_seasons: number;
+  number_of_episodes: number;
+  episode_run_time: number[];
+  status: string;
+  tagline?: string;
+  seasons: Season[];
+}
+
+export interface Language {
+  iso_639_1: string;
+  english_name: string;
+  name: string;
+}
+
 export interface TMDBResponse<T> {
   page: number;
   results: T[];
@@ -36,32 +258,42 @@ export interface TMDBResponse<T> {
 }
 
 class TMDBService {
-  private async fetchFromTMDB<T>(endpoint: string, params: Record<string, any> = {}): Promise<T> {
+  // The interfaces above stay hand-written because z.infer needs strictNullChecks.
+  // Each method returns its schema's output, so the two can't drift apart unnoticed.
+  private async fetchFromTMDB<S extends z.ZodTypeAny>(
+    endpoint: string,
+    schema: S,
+    params: Record<string, unknown> = {},
+    signal?: AbortSignal
+  ): Promise<TMDBPayload<S>> {
+    // Serve from cache where possible; only real network requests count against the rate limit
+    return tmdbCache.get(endpoint, params, requestSignal => this.requestFromTMDB(endpoint, schema, params, requestSignal), signal);
+  }
+
+  private async requestFromTMDB<S extends z.ZodTypeAny>(
+    endpoint: string,
+    schema: S,
+    params: Record<string, unknown> = {},
+    signal?: AbortSignal
+  ): Promise<TMDBPayload<S>> {
     // Rate limiting check
     const clientId = 'global';
     if (!rateLimiter.isAllowed(clientId)) {
-      throw new Error('Rate limit exceeded. Please try again later.');
+      throw new RateLimitError('Rate limit exceeded. Please try again later.');
     }
 
-    // Check if API key is available
-    if (!API_KEY) {
-      throw new Error('TMDB API key is not configured');
-    }
+    const url = new URL(`${BASE_URL}${endpoint}`, window.location.origin);
 
-    const url = new URL(`${BASE_URL}${endpoint}`);
-    url.searchParams.append('api_key', API_KEY);
-    
     Object.entries(params).forEach(([key, value]) => {
       if (value !== undefined && value !== null && value !== '') {
-        url.searchParams.append(key, value.toString());
+        url.searchParams.append(key, String(value));
       }
     });
 
-    console.log('Fetching from TMDB:', url.toString().replace(API_KEY, '[API_KEY]'));
-
     try {
       const response = await fetch(url.toString(), {
         method: 'GET',
+        signal,
         headers: {
           'Accept': 'application/json',
           'Content-Type': 'application/json'
@@ -74,38 +306,33 @@ class TMDBService {
         throw new Error(`TMDB API error: ${response.status} ${response.statusText}`);
       }
       
-      const data = await response.json();
-      console.log('TMDB Response received:', { endpoint, results: data.results?.length || 'single item' });
-      
-      // Sanitize movie data if the response contains movie results
-      if (data.results && Array.isArray(data.results)) {
-        data.results = data.results.map(sanitizeMovieData).filter(Boolean);
-      } else if (data.title || data.overview) {
-        // Single movie response
-        return sanitizeMovieData(data);
-      }
-      
-      return data;
+      const data: unknown = await response.json();
+
+      // Validates, repairs and sanitizes the payload before it reaches the cache
+      return parseTMDBPayload(schema, data, endpoint);
     } catch (error) {
-      console.error('Network error fetching from TMDB:', error);
+      // Superseded requests are expected, e.g. when filters change mid-flight
+      if (!signal?.aborted) {
+        console.error('Network error fetching from TMDB:', error);
+      }
       throw error;
     }
   }
 
-  async getPopularMovies(page = 1): Promise<TMDBResponse<Movie>> {
-    return this.fetchFromTMDB('/movie/popular', { page });
+  async getPopularMovies(page = 1, signal?: AbortSignal): Promise<TMDBResponse<Movie>> {
+    return this.fetchFromTMDB('/movie/popular', movieListSchema, { page }, signal);
   }
 
-  async getTopRatedMovies(page = 1): Promise<TMDBResponse<Movie>> {
-    return this.fetchFromTMDB('/movie/top_rated', { page });
+  async getTopRatedMovies(page = 1, signal?: AbortSignal): Promise<TMDBResponse<Movie>> {
+    return this.fetchFromTMDB('/movie/top_rated', movieListSchema, { page }, signal);
   }
 
-  async getLatestMovies(page = 1): Promise<TMDBResponse<Movie>> {
-    return this.fetchFromTMDB('/movie/now_playing', { page });
+  async getLatestMovies(page = 1, signal?: AbortSignal): Promise<TMDBResponse<Movie>> {
+    return this.fetchFromTMDB('/movie/now_playing', movieListSchema, { page }, signal);
   }
 
-  async getUpcomingMovies(page = 1): Promise<TMDBResponse<Movie>> {
-    return this.fetchFromTMDB('/movie/upcoming', { page });
+  async getUpcomingMovies(page = 1, signal?: AbortSignal): Promise<TMDBResponse<Movie>> {
+    return this.fetchFromTMDB('/movie/upcoming', movieListSchema, { page }, signal);
   }
 
   async discoverMovies(params: {
@@ -115,13 +342,13 @@ class TMDBService {
     sort_by?: string;
     adult_filter?: string;
     with_original_language?: string;
-  } = {}): Promise<TMDBResponse<Movie>> {
+  } = {}, signal?: AbortSignal): Promise<TMDBResponse<Movie>> {
     // Validate and sanitize input parameters
     const page = Math.max(1, Math.min(1000, parseInt(String(params.page || 1), 10) || 1));
     const validatedYear = validateYear(params.year);
     const validatedSortBy = validateSortBy(params.sort_by);
     
-    const queryParams: Record<string, any> = {
+    const queryParams: Record<string, string | number | boolean> = {
       page,
       include_video: true,
       language: 'en-US',
@@ -155,21 +382,21 @@ class TMDBService {
       queryParams.with_original_language = params.with_original_language;
     }
 
-    const response = await this.fetchFromTMDB<TMDBResponse<Movie>>('/discover/movie', queryParams);
+    const response = await this.fetchFromTMDB('/discover/movie', movieListSchema, queryParams, signal);
     
-    // Filter results for adult-only content if requested
+    // Filter results for adult-only content if requested, without touching the cached response
     if (params.adult_filter === 'true') {
-      response.results = response.results.filter(movie => movie.adult === true);
+      return { ...response, results: response.results.filter(movie => movie.adult === true) };
     }
     
     return response;
   }
 
-  async getLanguages(): Promise<any[]> {
-    return this.fetchFromTMDB('/configuration/languages');
+  async getLanguages(signal?: AbortSignal): Promise<Language[]> {
+    return this.fetchFromTMDB('/configuration/languages', languageListSchema, {}, signal);
   }
 
-  async searchMovies(query: string, page = 1): Promise<TMDBResponse<Movie>> {
+  async searchMovies(query: string, page = 1, signal?: AbortSignal): Promise<TMDBResponse<Movie>> {
     // Validate and sanitize search query
     const sanitizedQuery = validateSearchQuery(query);
     if (!sanitizedQuery) {
@@ -178,29 +405,170 @@ class TMDBService {
     
     const validPage = Math.max(1, Math.min(1000, parseInt(String(page), 10) || 1));
     
-    return this.fetchFromTMDB('/search/movie', {
+    return this.fetchFromTMDB('/search/movie', movieListSchema, {
       query: sanitizedQuery,
       page: validPage,
       include_adult: true,
       language: 'en-US',
-    });
+    }, signal);
+  }
+
+  /**
+   * Best TMDB match for a title and optional release year, e.g. parsed from a
+   * file name. Falls back to ignoring the year when it finds nothing.
+   */
+  async matchMovie(title: string, year: number | null, signal?: AbortSignal): Promise<Movie | null> {
+    const sanitizedQuery = validateSearchQuery(title);
+    if (!sanitizedQuery) return null;
+
+    const validYear = validateYear(year);
+    const search = (params: Record<string, unknown>) =>
+      this.fetchFromTMDB('/search/movie', movieListSchema, {
+        query: sanitizedQuery,
+        language: 'en-US',
+        ...params,
+      }, signal);
+
+    if (validYear) {
+      const { results } = await search({ primary_release_year: validYear });
+      if (results.length > 0) return results[0];
+    }
+    const { results } = await search({});
+    return results[0] ?? null;
   }
 
-  async getGenres(): Promise<{ genres: Genre[] }> {
-    return this.fetchFromTMDB('/genre/movie/list', {
+  async getGenres(signal?: AbortSignal): Promise<{ genres: Genre[] }> {
+    return this.fetchFromTMDB('/genre/movie/list', genreListSchema, {
       language: 'en-US',
-    });
+    }, signal);
   }
 
-  async getMovieDetails(movieId: number): Promise<Movie> {
+  async getMovieDetails(movieId: number, signal?: AbortSignal): Promise<MovieDetails> {
     const validId = validateId(movieId);
     if (!validId) {
       throw new Error('Invalid movie ID');
     }
     
-    return this.fetchFromTMDB(`/movie/${validId}`, {
+    // One request for the movie and everything the detail page shows
+    return this.fetchFromTMDB(`/movie/${validId}`, movieDetailsSchema, {
       language: 'en-US',
-    });
+      append_to_response: MOVIE_DETAIL_APPENDS.join(','),
+      include_image_language: 'en,null',
+      include_video_language: [...new Set([getPreferredLanguage(), 'en', 'null'])].join(','),
+    }, signal);
+  }
+
+  async getMovieVideos(movieId: number, signal?: AbortSignal): Promise<Video[]> {
+    const validId = validateId(movieId);
+    if (!validId) {
+      throw new Error('Invalid movie ID');
+    }
+
+    const language = getPreferredLanguage();
+    const response = await this.fetchFromTMDB(`/movie/${validId}/videos`, videoListSchema, {
+      // Untagged videos are usually language-neutral teasers and clips
+      include_video_language: [...new Set([language, 'en', 'null'])].join(','),
+    }, signal);
+
+    return rankVideos(response.results, language);
+  }
+
+  async getPopularTvShows(page = 1, signal?: AbortSignal): Promise<TMDBResponse<TvShow>> {
+    return this.fetchFromTMDB('/tv/popular', tvShowListSchema, { page }, signal);
+  }
+
+  async getTopRatedTvShows(page = 1, signal?: AbortSignal): Promise<TMDBResponse<TvShow>> {
+    return this.fetchFromTMDB('/tv/top_rated', tvShowListSchema, { page }, signal);
+  }
+
+  async getOnTheAirTvShows(page = 1, signal?: AbortSignal): Promise<TMDBResponse<TvShow>> {
+    return this.fetchFromTMDB('/tv/on_the_air', tvShowListSchema, { page }, signal);
+  }
+
+  async discoverTvShows(params: {
+    page?: number;
+    with_genres?: string;
+    first_air_date_year?: string;
+    sort_by?: string;
+    with_original_language?: string;
+  } = {}, signal?: AbortSignal): Promise<TMDBResponse<TvShow>> {
+    const page = Math.max(1, Math.min(1000, parseInt(String(params.page || 1), 10) || 1));
+    const validatedYear = validateYear(params.first_air_date_year);
+    const validatedSortBy = validateTvSortBy(params.sort_by);
+
+    const queryParams: Record<string, string | number | boolean> = {
+      page,
+      include_adult: false,
+      language: 'en-US',
+    };
+
+    if (params.with_genres && /^\d+(,\d+)*$/.test(params.with_genres)) {
+      queryParams.with_genres = params.with_genres;
+    }
+
+    if (validatedYear) {
+      queryParams.first_air_date_year = validatedYear;
+    }
+
+    if (validatedSortBy) {
+      queryParams.sort_by = validatedSortBy;
+    }
+
+    if (params.with_original_language && /^[a-z]{2}(-[A-Z]{2})?$/.test(params.with_original_language)) {
+      queryParams.with_original_language = params.with_original_language;
+    }
+
+    return this.fetchFromTMDB('/discover/tv', tvShowListSchema, queryParams, signal);
+  }
+
+  async searchTvShows(query: string, page = 1, signal?: AbortSignal): Promise<TMDBResponse<TvShow>> {
+    const sanitizedQuery = validateSearchQuery(query);
+    if (!sanitizedQuery) {
+      throw new Error('Invalid search query');
+    }
+
+    const validPage = Math.max(1, Math.min(1000, parseInt(String(page), 10) || 1));
+
+    return this.fetchFromTMDB('/search/tv', tvShowListSchema, {
+      query: sanitizedQuery,
+      page: validPage,
+      include_adult: false,
+      language: 'en-US',
+    }, signal);
+  }
+
+  async getTvGenres(signal?: AbortSignal): Promise<{ genres: Genre[] }> {
+    return this.fetchFromTMDB('/genre/tv/list', genreListSchema, {
+      language: 'en-US',
+    }, signal);
+  }
+
+  async getTvShowDetails(tvId: number, signal?: AbortSignal): Promise<TvShowDetails> {
+    const validId = validateId(tvId);
+    if (!validId) {
+      throw new Error('Invalid TV show ID');
+    }
+
+    return this.fetchFromTMDB(`/tv/${validId}`, tvShowDetailsSchema, {
+      language: 'en-US',
+    }, signal);
+  }
+
+  async getSeasonDetails(tvId: number, seasonNumber: number, signal?: AbortSignal): Promise<Season> {
+    const validId = validateId(tvId);
+    if (!validId) {
+      throw new Error('Invalid TV show ID');
+    }
+
+    // Season 0 holds specials, so it is a valid season number
+    const validSeason = parseInt(String(seasonNumber), 10);
+    if (isNaN(validSeason) || validSeason < 0 || validSeason > 1000) {
+      throw new Error('Invalid season number');
+    }
+
+    return this.fetchFromTMDB(`/tv/${validId}/season/${validSeason}`, seasonSchema, {
+      language: 'en-US',
+    }, signal);
   }
 
   getImageUrl(path: string, size = 'w500'): string {
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Movie } from '@/services/tmdb';
+import type { WatchHistoryEntry } from '@/services/watch-history';
+
+const idb = vi.hoisted(() => ({
+  idbGetAll: vi.fn(),
+  idbPut: vi.fn(),
+  idbDelete: vi.fn(),
+}));
+
+vi.mock('@/lib/idb', () => idb);
+
+function movie(id: number): Movie {
+  return {
+    id,
+    title: `Movie ${id}`,
+    overview: '',
+    poster_path: null,
+    backdrop_path: null,
+    release_date: '2020-01-01',
+    vote_average: 7,
+    vote_count: 100,
+    popularity: 1,
+    adult: false,
+    original_language: 'en',
+    genre_ids: [],
+  };
+}
+
+function stored(id: number, position = 600): WatchHistoryEntry {
+  return { ...movie(id), position, duration: 6000, updated_at: id };
+}
+
+// Creates the service with the database read held until the test releases it
+async function loadServiceWithPendingRead() {
+  let finishLoading: (entries: WatchHistoryEntry[]) => void;
+  const read = new Promise<WatchHistoryEntry[]>(resolve => {
+    finishLoading = resolve;
+  });
+  // Other stores (the TMDB cache, imported along the way) start out empty
+  idb.idbGetAll.mockImplementation(async (store: string) => store === 'history' ? read : []);
+
+  vi.resetModules();
+  const { watchHistoryService } = await import('@/services/watch-history');
+  return {
+    watchHistoryService,
+    finishLoading: async (entries: WatchHistoryEntry[]) => {
+      finishLoading(entries);
+      // Let the service's load continue past the read
+      await new Promise(resolve => setTimeout(resolve));
+    },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  idb.idbPut.mockResolvedValue(undefined);
+  idb.idbDelete.mockResolvedValue(undefined);
+});
+
+describe('watchHistoryService while the stored history loads', () => {
+  it('keeps positions saved before the load finishes', async () => {
+    const { watchHistoryService, finishLoading } = await loadServiceWithPendingRead();
+
+    await watchHistoryService.savePosition(movie(1), 120, 6000);
+    await finishLoading([stored(1, 60), stored(2)]);
+
+    expect(await watchHistoryService.getResumePosition(1)).toBe(120);
+    expect(await watchHistoryService.getResumePosition(2)).toBe(600);
+  });
+
+  it("doesn't bring back entries removed before the load finishes", async () => {
+    const { watchHistoryService, finishLoading } = await loadServiceWithPendingRead();
+
+    await watchHistoryService.remove(2);
+    await finishLoading([stored(2), stored(3)]);
+
+    expect(watchHistoryService.getSnapshot().map(entry => entry.id)).toEqual([3]);
+    expect(idb.idbDelete).toHaveBeenCalledWith('history', 2);
+  });
+
+  it("doesn't bring back titles finished before the load finishes", async () => {
+    const { watchHistoryService, finishLoading } = await loadServiceWithPendingRead();
+
+    await watchHistoryService.savePosition(movie(2), 5900, 6000);
+    await finishLoading([stored(2)]);
+
+    expect(await watchHistoryService.getResumePosition(2)).toBeNull();
+  });
+
+  it('ignores removing a title that is not in the loaded history', async () => {
+    const { watchHistoryService, finishLoading } = await loadServiceWithPendingRead();
+    await finishLoading([stored(3)]);
+
+    await watchHistoryService.remove(2);
+
+    expect(idb.idbDelete).not.toHaveBeenCalledWith('history', 2);
+  });
+});
+
+describe('watchHistoryService resume positions', () => {
+  it("doesn't save positions too early to resume from", async () => {
+    const { watchHistoryService, finishLoading } = await loadServiceWithPendingRead();
+    await finishLoading([]);
+
+    await watchHistoryService.savePosition(movie(1), 0, 6000);
+    await watchHistoryService.savePosition(movie(2), 10, 6000);
+
+    expect(watchHistoryService.getSnapshot()).toEqual([]);
+    expect(idb.idbPut).not.toHaveBeenCalled();
+  });
+
+  it('keeps the saved position when the player closes before playback starts', async () => {
+    const { watchHistoryService, finishLoading } = await loadServiceWithPendingRead();
+    await finishLoading([stored(1)]);
+
+    await watchHistoryService.savePosition(movie(1), 0, 6000);
+
+    expect(await watchHistoryService.getResumePosition(1)).toBe(600);
+  });
+
+  it('leaves stored entries too early to resume from out of the list', async () => {
+    const { watchHistoryService, finishLoading } = await loadServiceWithPendingRead();
+
+    await finishLoading([stored(1, 5), stored(2)]);
+
+    expect(watchHistoryService.getSnapshot().map(entry => entry.id)).toEqual([2]);
+  });
+});
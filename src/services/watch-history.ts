@@ -0,0 +1,128 @@
+import { idbGetAll, idbPut, idbDelete } from '@/lib/idb';
+import { Movie, toMovieSnapshot } from '@/services/tmdb';
+
+export interface WatchHistoryEntry extends Movie {
+  position: number;
+  duration: number;
+  updated_at: number;
+}
+
+// Titles watched past this fraction count as finished and leave the history
+export const WATCHED_THRESHOLD = 0.9;
+// Don't offer to resume when only the opening seconds were played
+export const MIN_RESUME_POSITION = 30;
+
+type Listener = () => void;
+
+class WatchHistoryService {
+  private entries = new Map<number, WatchHistoryEntry>();
+  private snapshot: WatchHistoryEntry[] = [];
+  private listeners = new Set<Listener>();
+  private ready: Promise<void>;
+  // Removed before the stored history finished loading; null once it has
+  private removedWhileLoading: Set<number> | null = new Set();
+
+  constructor() {
+    this.ready = this.load();
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await idbGetAll<WatchHistoryEntry>('history');
+      stored.forEach(entry => {
+        // Keep anything saved before the database finished opening, and don't revive removals
+        if (!this.entries.has(entry.id) && !this.removedWhileLoading.has(entry.id)) {
+          this.entries.set(entry.id, entry);
+        }
+      });
+      this.emit();
+    } catch (error) {
+      console.error('Error loading watch history:', error);
+    } finally {
+      this.removedWhileLoading = null;
+    }
+  }
+
+  private emit() {
+    // Entries stored before positions this early were skipped have nothing to resume
+    this.snapshot = Array.from(this.entries.values())
+      .filter(entry => entry.position >= MIN_RESUME_POSITION)
+      .sort((a, b) => b.updated_at - a.updated_at);
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * In-progress titles, most recently watched first
+   */
+  getSnapshot = (): WatchHistoryEntry[] => this.snapshot;
+
+  /**
+   * Resolves to the saved playback position worth resuming from, if any
+   */
+  async getResumePosition(movieId: number): Promise<number | null> {
+    await this.ready;
+    const entry = this.entries.get(movieId);
+    if (!entry || entry.position < MIN_RESUME_POSITION) {
+      return null;
+    }
+    return entry.position;
+  }
+
+  async savePosition(movie: Movie, position: number, duration: number): Promise<void> {
+    if (!movie?.id || !isFinite(position) || !isFinite(duration) || duration <= 0) {
+      return;
+    }
+
+    if (position / duration >= WATCHED_THRESHOLD) {
+      await this.remove(movie.id);
+      return;
+    }
+
+    // Too early to be worth resuming. This also keeps closing the player before
+    // playback starts from overwriting the position saved last time.
+    if (position < MIN_RESUME_POSITION) {
+      return;
+    }
+
+    const entry: WatchHistoryEntry = {
+      ...toMovieSnapshot(movie),
+      position,
+      duration,
+      updated_at: Date.now(),
+    };
+
+    this.entries.set(entry.id, entry);
+    this.removedWhileLoading?.delete(entry.id);
+    this.emit();
+
+    try {
+      await idbPut('history', entry);
+    } catch (error) {
+      console.error('Error saving watch history:', error);
+    }
+  }
+
+  async remove(movieId: number): Promise<void> {
+    const removed = this.entries.delete(movieId);
+    // Until loading finishes the entry may only be in the database, so delete it there regardless
+    if (!removed && !this.removedWhileLoading) return;
+
+    this.removedWhileLoading?.add(movieId);
+    if (removed) this.emit();
+
+    try {
+      await idbDelete('history', movieId);
+    } catch (error) {
+      console.error('Error removing watch history entry:', error);
+    }
+  }
+}
+
+export const watchHistoryService = new WatchHistoryService();
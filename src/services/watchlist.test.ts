@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Movie } from '@/services/tmdb';
+import type { WatchlistItem } from '@/services/watchlist';
+
+const idb = vi.hoisted(() => ({
+  idbGetAll: vi.fn(),
+  idbPut: vi.fn(),
+  idbDelete: vi.fn(),
+}));
+
+vi.mock('@/lib/idb', () => idb);
+
+function movie(id: number): Movie {
+  return {
+    id,
+    title: `Movie ${id}`,
+    overview: '',
+    poster_path: null,
+    backdrop_path: null,
+    release_date: '2020-01-01',
+    vote_average: 7,
+    vote_count: 100,
+    popularity: 1,
+    adult: false,
+    original_language: 'en',
+    genre_ids: [],
+  };
+}
+
+function stored(id: number): WatchlistItem {
+  return { ...movie(id), added_at: 1 };
+}
+
+// Creates the service with the database read held until the test releases it
+async function loadServiceWithPendingRead() {
+  let finishLoading: (items: WatchlistItem[]) => void;
+  const read = new Promise<WatchlistItem[]>(resolve => {
+    finishLoading = resolve;
+  });
+  // Other stores (the TMDB cache, imported along the way) start out empty
+  idb.idbGetAll.mockImplementation(async (store: string) => store === 'watchlist' ? read : []);
+
+  vi.resetModules();
+  const { watchlistService } = await import('@/services/watchlist');
+  return {
+    watchlistService,
+    finishLoading: async (items: WatchlistItem[]) => {
+      finishLoading(items);
+      // Let the service's load continue past the read
+      await new Promise(resolve => setTimeout(resolve));
+    },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  idb.idbPut.mockResolvedValue(undefined);
+  idb.idbDelete.mockResolvedValue(undefined);
+});
+
+describe('watchlistService while the stored watchlist loads', () => {
+  it('keeps movies added before the load finishes', async () => {
+    const { watchlistService, finishLoading } = await loadServiceWithPendingRead();
+
+    await watchlistService.add(movie(1));
+    await finishLoading([stored(2)]);
+
+    expect(watchlistService.getSnapshot().map(item => item.id).sort()).toEqual([1, 2]);
+  });
+
+  it("doesn't bring back movies removed before the load finishes", async () => {
+    const { watchlistService, finishLoading } = await loadServiceWithPendingRead();
+
+    await watchlistService.remove(2);
+    await finishLoading([stored(2), stored(3)]);
+
+    expect(watchlistService.getSnapshot().map(item => item.id)).toEqual([3]);
+    expect(idb.idbDelete).toHaveBeenCalledWith('watchlist', 2);
+  });
+
+  it('keeps a movie removed and then added again', async () => {
+    const { watchlistService, finishLoading } = await loadServiceWithPendingRead();
+
+    await watchlistService.add(movie(2));
+    await watchlistService.remove(2);
+    await watchlistService.add(movie(2));
+    await finishLoading([stored(2)]);
+
+    expect(watchlistService.has(2)).toBe(true);
+  });
+
+  it('ignores removing a movie that is not on the loaded watchlist', async () => {
+    const { watchlistService, finishLoading } = await loadServiceWithPendingRead();
+    await finishLoading([stored(3)]);
+
+    await watchlistService.remove(2);
+
+    expect(idb.idbDelete).not.toHaveBeenCalledWith('watchlist', 2);
+  });
+});
@@ -0,0 +1,120 @@
+import { idbGetAll, idbPut, idbDelete } from '@/lib/idb';
+import { Movie, toMovieSnapshot } from '@/services/tmdb';
+
+export interface WatchlistItem extends Movie {
+  added_at: number;
+}
+
+export type WatchlistSort = 'added' | 'rating' | 'release';
+
+type Listener = () => void;
+
+class WatchlistService {
+  private items = new Map<number, WatchlistItem>();
+  private snapshot: WatchlistItem[] = [];
+  private listeners = new Set<Listener>();
+  // Removed before the stored watchlist finished loading; null once it has
+  private removedWhileLoading: Set<number> | null = new Set();
+
+  constructor() {
+    this.load();
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await idbGetAll<WatchlistItem>('watchlist');
+      stored.forEach(item => {
+        // Keep anything added before the database finished opening, and don't revive removals
+        if (!this.items.has(item.id) && !this.removedWhileLoading.has(item.id)) {
+          this.items.set(item.id, item);
+        }
+      });
+      this.emit();
+    } catch (error) {
+      // Fall back to an in-memory watchlist (e.g. private browsing)
+      console.error('Error loading watchlist:', error);
+    } finally {
+      this.removedWhileLoading = null;
+    }
+  }
+
+  private emit() {
+    this.snapshot = Array.from(this.items.values());
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): WatchlistItem[] => this.snapshot;
+
+  has(movieId: number): boolean {
+    return this.items.has(movieId);
+  }
+
+  async add(movie: Movie): Promise<void> {
+    const item: WatchlistItem = {
+      ...toMovieSnapshot(movie),
+      added_at: Date.now(),
+    };
+
+    this.items.set(item.id, item);
+    this.removedWhileLoading?.delete(item.id);
+    this.emit();
+
+    try {
+      await idbPut('watchlist', item);
+    } catch (error) {
+      console.error('Error saving watchlist item:', error);
+    }
+  }
+
+  async remove(movieId: number): Promise<void> {
+    const removed = this.items.delete(movieId);
+    // Until loading finishes the movie may only be in the database, so delete it there regardless
+    if (!removed && !this.removedWhileLoading) return;
+
+    this.removedWhileLoading?.add(movieId);
+    if (removed) this.emit();
+
+    try {
+      await idbDelete('watchlist', movieId);
+    } catch (error) {
+      console.error('Error removing watchlist item:', error);
+    }
+  }
+
+  /**
+   * Adds the movie if missing, removes it otherwise. Resolves to the new state.
+   */
+  async toggle(movie: Movie): Promise<boolean> {
+    if (this.has(movie.id)) {
+      await this.remove(movie.id);
+      return false;
+    }
+    await this.add(movie);
+    return true;
+  }
+}
+
+/**
+ * Returns a sorted copy of the watchlist, newest/highest/latest first
+ */
+export function sortWatchlist(items: WatchlistItem[], sort: WatchlistSort): WatchlistItem[] {
+  const sorted = [...items];
+
+  switch (sort) {
+    case 'rating':
+      return sorted.sort((a, b) => (b.vote_average || 0) - (a.vote_average || 0));
+    case 'release':
+      return sorted.sort((a, b) => (b.release_date || '').localeCompare(a.release_date || ''));
+    default:
+      return sorted.sort((a, b) => b.added_at - a.added_at);
+  }
+}
+
+export const watchlistService = new WatchlistService();
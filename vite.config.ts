@@ -1,30 +1,45 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { TMDB_API_BASE, buildTmdbUrl, isAllowedTmdbEndpoint } from "./api/_lib/tmdb-proxy";
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-    proxy: {
-      "/tmdb": {
-        target: "https://api.themoviedb.org/3",
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/tmdb/, ""),
-        secure: true,
+export default defineConfig(({ mode }) => {
+  // Unprefixed so Vite never exposes it to the client bundle
+  const { TMDB_API_KEY = "" } = loadEnv(mode, process.cwd(), "");
+
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+      proxy: {
+        // Mirrors api/tmdb.ts: allow-listed endpoints only, key added server-side
+        "/tmdb": {
+          target: TMDB_API_BASE,
+          changeOrigin: true,
+          secure: true,
+          bypass: (req) => {
+            const { pathname } = new URL(req.url ?? "", "http://localhost");
+            return isAllowedTmdbEndpoint(pathname.replace(/^\/tmdb/, "")) ? undefined : false;
+          },
+          rewrite: (path) => {
+            const url = new URL(path, "http://localhost");
+            const upstream = new URL(buildTmdbUrl(url.pathname.replace(/^\/tmdb/, ""), url.searchParams, TMDB_API_KEY));
+            return `${upstream.pathname.replace(/^\/3/, "")}${upstream.search}`;
+          },
+        },
       },
     },
-  },
-  plugins: [
-    react(),
-    mode === 'development' &&
-    componentTagger(),
-  ].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+    plugins: [
+      react(),
+      mode === 'development' &&
+      componentTagger(),
+    ].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
     },
-  },
-}));
+  };
+});